@@ -0,0 +1,168 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import { AliasDictionary, ColumnMapping, DateOrder, DeltaReport, ImportOptions, MappingProfile, OutlierMethod, UploadMode } from '../src/types';
+import { readSheets, inspectSheets, parseSheets } from '../src/utils/rentalParser';
+import { findMatchingProfile, getMissingRequiredFields, suggestMapping } from '../src/utils/columnMapping';
+import { buildLocaleSamples, detectLocale } from '../src/utils/localeProfile';
+import { hashRecords, splitByYear, renumberRecords } from '../src/utils/datasetUtils';
+import { resolveDuplicates, DEFAULT_DUPLICATE_CONFIG } from '../src/utils/duplicates';
+import { EMPTY_ALIASES } from '../src/utils/aliases';
+
+// Headless import for scheduled jobs: parses a file exactly like the browser does,
+// prints a summary and optionally publishes each year through the upload API.
+//
+//   npm run ingest -- bookings.xlsx [--sheet Q1 --sheet Q2 | --all-sheets] [--profile Name]
+//                     [--date-order DMY] [--outliers mad|iqr] [--year 2024] [--publish --mode append]
+//
+// The server is read from RATE_API_URL (or --server) and authenticated with RATE_API_KEY,
+// which must match the server's INGEST_API_KEY. Without them the file is only parsed locally.
+
+const USAGE = 'Usage: npm run ingest -- <file> [--sheet <name>]... [--all-sheets] [--profile <name>] [--date-order DMY|MDY|YMD] [--outliers mad|iqr] [--year <year>]... [--publish] [--mode replace|append] [--server <url>]';
+const DATE_ORDERS: DateOrder[] = ['DMY', 'MDY', 'YMD'];
+const OUTLIER_METHODS: OutlierMethod[] = ['mad', 'iqr'];
+const UPLOAD_MODES: UploadMode[] = ['replace', 'append'];
+
+const fail = (message: string): never => {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+};
+
+const { values: args, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    sheet: { type: 'string', multiple: true },
+    'all-sheets': { type: 'boolean' },
+    profile: { type: 'string' },
+    'date-order': { type: 'string' },
+    outliers: { type: 'string' },
+    year: { type: 'string', multiple: true },
+    publish: { type: 'boolean' },
+    mode: { type: 'string', default: 'replace' },
+    server: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+const serverUrl = (args.server || process.env.RATE_API_URL || '').replace(/\/+$/, '');
+const apiKey = process.env.RATE_API_KEY || '';
+
+const apiFetch = async (route: string, init: RequestInit = {}): Promise<any> => {
+  const res = await fetch(`${serverUrl}${route}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}`, ...init.headers },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(`${init.method || 'GET'} ${route} failed (${res.status}): ${body.error || res.statusText}`);
+  }
+  return res.json();
+};
+
+// Same three steps as the browser upload: init, PUT to the signed URL, finalize
+const publishYear = async (year: number, records: unknown[], hash: string, mode: UploadMode): Promise<DeltaReport | 'exists' | undefined> => {
+  const body = { year: String(year), type: 'records', hash, mode };
+  const init = await apiFetch('/api/upload/init', { method: 'POST', body: JSON.stringify(body) });
+  if (init.status === 'exists') return 'exists';
+
+  // The local storage driver hands out URLs relative to the server
+  const uploadRes = await fetch(new URL(init.signedUrl, serverUrl), {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(records),
+  });
+  if (!uploadRes.ok) throw new Error(`Storage upload failed (${uploadRes.status})`);
+
+  const { delta } = await apiFetch('/api/upload/finalize', { method: 'POST', body: JSON.stringify(body) });
+  return delta;
+};
+
+const main = async () => {
+  if (args.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (positionals.length !== 1) fail(USAGE);
+  const dateOrder = args['date-order']?.toUpperCase() as DateOrder | undefined;
+  if (dateOrder && !DATE_ORDERS.includes(dateOrder)) fail(`--date-order must be one of ${DATE_ORDERS.join(', ')}`);
+  const outlierMethod = (args.outliers || 'mad') as OutlierMethod;
+  if (!OUTLIER_METHODS.includes(outlierMethod)) fail(`--outliers must be one of ${OUTLIER_METHODS.join(', ')}`);
+  const mode = args.mode as UploadMode;
+  if (!UPLOAD_MODES.includes(mode)) fail(`--mode must be one of ${UPLOAD_MODES.join(', ')}`);
+  const connected = !!(serverUrl && apiKey);
+  if ((args.publish || args.profile) && !connected) fail('--publish and --profile need RATE_API_URL (or --server) and RATE_API_KEY');
+
+  const filePath = positionals[0];
+  const buffer = await readFile(filePath);
+  const arrayBuffer = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  const { sheets, source } = readSheets(path.basename(filePath), arrayBuffer);
+  const inspection = inspectSheets(sheets, source);
+
+  // Server-side settings, so the result matches what the browser would produce
+  let profiles: MappingProfile[] = [];
+  let aliases: AliasDictionary = EMPTY_ALIASES;
+  if (connected) {
+    profiles = (await apiFetch('/api/mapping-profiles')).profiles;
+    aliases = await apiFetch('/api/aliases');
+  }
+
+  const profile = args.profile
+    ? profiles.find(p => p.name === args.profile) || fail(`Mapping profile "${args.profile}" not found`)
+    : findMatchingProfile(profiles, inspection.headers);
+  const mapping: ColumnMapping = profile ? profile.mapping : suggestMapping(inspection.headers);
+  const missing = getMissingRequiredFields(mapping, inspection.headers);
+  if (missing.length > 0) fail(`No column mapped for: ${missing.map(f => f.label).join(', ')}. Save a mapping profile in the app first.`);
+
+  const sheetNames = args['all-sheets'] ? sheets.map(s => s.name) : args.sheet;
+  let locale = profile?.locale;
+  if (dateOrder) {
+    locale = { ...(locale || detectLocale(buildLocaleSamples(inspection.columnSamples, mapping))), dateOrder };
+  }
+  const options: ImportOptions = {
+    sheets: sheetNames,
+    tagSheets: !!sheetNames && sheetNames.length > 1,
+    locale,
+    aliases,
+    chargeRules: profile?.chargeRules,
+    outlierMethod,
+  };
+
+  const { data, rejections, chargeCounts, outliers } = await parseSheets(sheets, mapping, options, async () => {});
+
+  console.log(`File:        ${filePath} (${source.format}${source.encoding ? `, ${source.encoding}` : ''})`);
+  console.log(`Profile:     ${profile ? profile.name : 'none (columns detected from headers)'}`);
+  console.log(`Rows:        ${data.totalRecords.toLocaleString()} imported, ${rejections.length.toLocaleString()} rejected`);
+  const byReason = new Map<string, number>();
+  rejections.forEach(r => byReason.set(r.reason, (byReason.get(r.reason) || 0) + 1));
+  byReason.forEach((count, reason) => console.log(`  ${reason}: ${count.toLocaleString()}`));
+  if (chargeCounts.zero > 0 || chargeCounts.negative > 0) {
+    console.log(`Charges:     ${chargeCounts.zero} zero, ${chargeCounts.negative} negative (${chargeCounts.excluded} excluded, ${chargeCounts.tagged} tagged, ${chargeCounts.netted} netted, ${chargeCounts.unmatched} unmatched)`);
+  }
+  // Nobody is there to review outliers; they are kept and reported
+  if (outliers.length > 0) console.log(`Outliers:    ${outliers.length.toLocaleString()} unusual rates kept unreviewed`);
+  console.log(`SHA-256:     ${await hashRecords(data.records)}`);
+
+  const wantedYears = args.year?.map(Number);
+  const slices = splitByYear(data).filter(s => !wantedYears || wantedYears.includes(s.year));
+  if (slices.length === 0) fail('No records fall in the requested years');
+
+  for (const slice of slices) {
+    const { records, report } = resolveDuplicates(slice.records, null, DEFAULT_DUPLICATE_CONFIG);
+    const dataset = renumberRecords(records);
+    const hash = await hashRecords(dataset);
+    console.log(`\n${slice.year}: ${dataset.length.toLocaleString()} records${report.removed > 0 ? ` (${report.removed} duplicates removed)` : ''}`);
+    console.log(`  SHA-256: ${hash}`);
+
+    if (!args.publish) continue;
+    const result = await publishYear(slice.year, dataset, hash, mode);
+    if (result === 'exists') {
+      console.log('  Already up to date');
+    } else if (result) {
+      console.log(`  Appended ${result.from} – ${result.to}: ${result.added} added, ${result.replaced} replaced, ${result.removed} removed (version ${result.version})`);
+    } else {
+      console.log(`  Published (${mode})`);
+    }
+  }
+};
+
+main().catch(err => fail(err.message));
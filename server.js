@@ -3,10 +3,16 @@ import helmet from 'helmet';
 import compression from 'compression';
 import cookieParser from 'cookie-parser';
 import jwt from 'jsonwebtoken';
-import { Storage } from '@google-cloud/storage';
 import path from 'path';
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
 import { fileURLToPath } from 'url';
 import 'dotenv/config';
+import { createStorage } from './server/storage.js';
+import { createAuditLog } from './server/audit.js';
+import { mergeDelta } from './server/merge.js';
+import { QUERY_DATE_RANGES, aggregateCube, buildQueryRows, buildStatsCube } from './server/query.js';
+import { normalizeAliasKey, resolveAlias } from './server/aliases.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
@@ -14,13 +20,48 @@ const PORT = process.env.PORT || 8080;
 
 // Config
 const BUCKET_NAME = process.env.GCS_BUCKET_NAME || 'rental-analytics-data';
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'gcs'; // 'gcs' or 'local'
+const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || './storage-data';
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-do-not-use-in-prod';
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin';
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin'; // Bootstrap sign-in until an admin account exists
+const INGEST_API_KEY = process.env.INGEST_API_KEY || ''; // Bearer key for scheduled ingestion; disabled when empty
+const QUERY_API_KEY = process.env.QUERY_API_KEY || ''; // Read-only bearer key for BI tools; disabled when empty
 const IS_PROD = process.env.NODE_ENV === 'production';
+const MAPPING_PROFILES_PATH = 'config/mapping-profiles.json';
+const MAPPING_FIELDS = [
+  'station', 'date', 'days', 'charge', 'group',
+  'returnDate', 'returnStation', 'reservationId', 'bookingDate', 'currency'
+];
+const DATE_ORDERS = ['DMY', 'MDY', 'YMD'];
+const ZERO_CHARGE_ACTIONS = ['include', 'exclude', 'tag'];
+const NEGATIVE_CHARGE_ACTIONS = ['include', 'exclude', 'net', 'tag'];
+const ALIASES_PATH = 'config/aliases.json';
+const MAX_ALIASES = 5000;
+const FX_RATES_PATH = 'config/fx-rates.json';
+const UPLOAD_MODES = ['replace', 'append'];
+const UPLOAD_HASH_PATTERN = /^[a-f0-9]{64}$/; // SHA-256 of the uploaded JSON, lowercase hex
+const MAX_FX_RATES = 10000;
+// Years that may be opened for uploads; the upper bound follows the calendar unless set
+const YEAR_MIN = Number(process.env.YEAR_MIN) || 2000;
+const YEAR_MAX = Number(process.env.YEAR_MAX) || null;
+const USERS_PATH = 'config/users.json';
+const ROLES = ['viewer', 'uploader', 'admin']; // Each role may do everything the ones before it can
+const BOOTSTRAP_USER = 'admin';
+const USERNAME_PATTERN = /^[a-z0-9._-]{2,40}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_USER_STATIONS = 500;
+const AUDIT_OUTCOMES = ['success', 'failure', 'rejected'];
+const MAX_AUDIT_ENTRIES = 5000;
+const USERS_CACHE_MS = 30 * 1000;
 
 // Storage
-const storage = new Storage();
-const bucket = storage.bucket(BUCKET_NAME);
+const storage = createStorage({
+  driver: STORAGE_DRIVER,
+  bucketName: BUCKET_NAME,
+  localDir: LOCAL_STORAGE_DIR,
+  signingSecret: JWT_SECRET
+});
+const auditLog = createAuditLog({ storage });
 
 // Middleware
 app.set('trust proxy', 1); // Trust Cloud Run Load Balancer
@@ -56,9 +97,31 @@ app.use(helmet({
   },
 }));
 app.use(compression());
+// Signed-URL endpoints of the local driver; they carry their own signature and a raw body
+if (storage.router) app.use(storage.router);
 app.use(express.json());
 app.use(cookieParser());
 
+// Compare digests so the check takes the same time whatever the lengths
+const secretsMatch = (given, expected) => timingSafeEqual(
+  createHash('sha256').update(String(given)).digest(),
+  createHash('sha256').update(String(expected)).digest()
+);
+
+// Identities of the bearer keys: ingestion publishes data, the query key only reads
+const API_KEYS = [
+  { key: INGEST_API_KEY, user: { username: 'ingest-api', role: 'uploader', allStations: true, stations: null } },
+  { key: QUERY_API_KEY, user: { username: 'query-api', role: 'viewer', allStations: true, stations: null } },
+];
+
+// Account of the API key the request carries as a bearer token, or null
+const apiKeyUser = (req) => {
+  const header = req.headers['authorization'];
+  if (typeof header !== 'string' || !header.startsWith('Bearer ')) return null;
+  const match = API_KEYS.find(({ key }) => key && secretsMatch(header.slice(7), key));
+  return match ? { ...match.user } : null;
+};
+
 // CSRF Protection (Double Submit Cookie)
 app.use((req, res, next) => {
   const token = req.cookies['XSRF-TOKEN'];
@@ -67,7 +130,8 @@ app.use((req, res, next) => {
     res.cookie('XSRF-TOKEN', newToken, { secure: IS_PROD, sameSite: 'strict' });
   }
   
-  if (['POST', 'PUT', 'DELETE'].includes(req.method)) {
+  // Key-authenticated clients send no cookies, so there is nothing to forge
+  if (['POST', 'PUT', 'DELETE'].includes(req.method) && !apiKeyUser(req)) {
     const headerToken = req.headers['x-xsrf-token'];
     const cookieToken = req.cookies['XSRF-TOKEN'];
     if (!cookieToken || headerToken !== cookieToken) {
@@ -78,36 +142,344 @@ app.use((req, res, next) => {
 });
 
 // Auth Middleware
-const requireAuth = (req, res, next) => {
+// Sets req.user ({ username, role, allStations, stations }) and req.actor, the name recorded as uploader.
+// The role is looked up on every request, so role changes apply to existing sessions.
+const requireAuth = async (req, res, next) => {
+  const keyUser = apiKeyUser(req);
+  if (keyUser) {
+    req.user = keyUser;
+    req.actor = keyUser.username;
+    return next();
+  }
+
   const token = req.cookies['jwt_auth'];
   if (!token) return res.status(401).json({ error: 'Unauthorized' });
-  
+
+  let payload;
   try {
-    jwt.verify(token, JWT_SECRET);
-    next();
+    payload = jwt.verify(token, JWT_SECRET);
   } catch (err) {
     res.clearCookie('jwt_auth');
     return res.status(401).json({ error: 'Invalid Token' });
   }
+
+  try {
+    const user = await findUser(payload.sub);
+    if (!user) {
+      res.clearCookie('jwt_auth');
+      return res.status(401).json({ error: 'Account no longer exists' });
+    }
+    const stations = userStations(user);
+    req.user = { username: user.username, role: user.role, allStations: stations === null, stations };
+    req.actor = user.username;
+    next();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to check account' });
+  }
+};
+
+// Authenticated and holding at least `role`
+const requireRole = (role) => (req, res, next) => requireAuth(req, res, () => {
+  if (ROLES.indexOf(req.user.role) < ROLES.indexOf(role)) {
+    return res.status(403).json({ error: `Requires the ${role} role` });
+  }
+  next();
+});
+
+// --- Storage Helpers ---
+
+// Read a JSON object from storage, falling back when missing or corrupt
+const readJsonFile = async (fileName, fallback) => {
+  const object = await storage.read(fileName);
+  if (!object) return fallback;
+  try {
+    return JSON.parse(object.content.toString());
+  } catch (e) {
+    console.warn(`Corrupt ${fileName} found, using defaults.`);
+    return fallback;
+  }
+};
+
+// Read-modify-write a JSON object with generation-based optimistic locking
+const updateJsonFile = async (fileName, fallback, mutate) => {
+  let retries = 3;
+  while (true) {
+    try {
+      const object = await storage.read(fileName);
+      let data = structuredClone(fallback);
+      const options = { ifGenerationMatch: 0 };
+      if (object) {
+        try {
+          data = JSON.parse(object.content.toString());
+        } catch (e) {
+          console.warn(`${fileName} exists but is invalid JSON. Overwriting.`);
+        }
+        options.ifGenerationMatch = object.generation;
+      }
+      const updated = await mutate(data);
+      await storage.write(fileName, JSON.stringify(updated, null, 2), options);
+      return updated;
+    } catch (e) {
+      if (e.code === 412 && retries > 0) { // Precondition Failed
+        retries--;
+        console.log(`${fileName} update collision (412), retrying... (${retries} left)`);
+        continue;
+      }
+      throw e;
+    }
+  }
+};
+
+// Uploads of a year, oldest first; metadata written before history existed yields its active version only
+const yearHistory = (yearMeta) => {
+  if (yearMeta?.history) return yearMeta.history;
+  if (!yearMeta?.hash) return [];
+  return [{
+    version: yearMeta.version,
+    hash: yearMeta.hash,
+    rows: yearMeta.rowCount ?? null,
+    path: yearMeta.recordsPath,
+    uploadedAt: yearMeta.lastUpdated ?? null,
+    uploadedBy: null,
+    mode: 'replace'
+  }];
+};
+
+// Append a version to the year's history and make it the active one
+const addVersion = (meta, year, { hash, rows, path, statsPath, mode, actor }) => {
+  if (!meta.years) meta.years = {};
+  const history = yearHistory(meta.years[year]);
+  const now = new Date().toISOString();
+  const entry = {
+    version: history.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+    hash,
+    rows,
+    path,
+    statsPath,
+    uploadedAt: now,
+    uploadedBy: actor || null,
+    mode
+  };
+  meta.lastUpdated = now;
+  meta.years[year] = {
+    status: 'active',
+    version: entry.version,
+    hash,
+    rowCount: rows,
+    recordsPath: path,
+    statsPath,
+    lastUpdated: now,
+    history: [...history, entry]
+  };
+  return entry;
+};
+
+const yearBounds = () => ({ min: YEAR_MIN, max: YEAR_MAX || new Date().getFullYear() + 1 });
+
+const isYearInBounds = (year) => {
+  const { min, max } = yearBounds();
+  return /^\d{4}$/.test(String(year)) && Number(year) >= min && Number(year) <= max;
+};
+
+// Uploads are only accepted for years an admin has opened (or that already hold data)
+const isOpenYear = async (year) => {
+  if (!isYearInBounds(year)) return false;
+  const meta = await readJsonFile('metadata.json', { years: {} });
+  return !!meta.years?.[year];
+};
+
+// Uploaded object names end with the content hash and type, see /api/upload/init
+const isUploadOf = (name, hash) => name.endsWith(`_${hash}_records.json`);
+
+// Stored records file of a year holding the given content hash (the newest, if uploaded twice)
+const findRecordsFile = async (year, hash) => {
+  const files = await storage.list(`data/${year}/`);
+  return files.filter(name => isUploadOf(name, hash)).pop();
+};
+
+// Whether a stored file backs the year's active dataset or one of its earlier versions
+const isVersionFile = async (year, fileName) => {
+  const meta = await readJsonFile('metadata.json', { years: {} });
+  const yearMeta = meta.years?.[year];
+  return [yearMeta, ...yearHistory(yearMeta)].some(v => {
+    if (!v) return false;
+    const path = v.recordsPath || v.path;
+    return path ? path === fileName : !!v.hash && isUploadOf(fileName, v.hash);
+  });
+};
+
+const hashJson = (value) => createHash('sha256').update(JSON.stringify(value)).digest('hex');
+
+const downloadJson = async (fileName) => {
+  const object = await storage.read(fileName);
+  if (!object) throw new Error(`${fileName} is missing`);
+  return JSON.parse(object.content.toString());
+};
+
+// --- Audit Trail ---
+
+// Record who did what; also printed, for the platform's log viewer
+const audit = (req, { action, user = req.actor, year, hash, outcome = 'success', details }) => {
+  const entry = {
+    timestamp: new Date().toISOString(),
+    user: user || null,
+    action,
+    year: year !== undefined ? String(year) : null,
+    hash: hash || null,
+    ip: req.ip,
+    outcome,
+    ...(details ? { details } : {})
+  };
+  auditLog.record(entry);
+};
+
+// --- User Accounts ---
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "scrypt$<salt>$<key>", hex encoded
+const hashPassword = async (password) => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+};
+
+const verifyPassword = async (password, stored) => {
+  const [scheme, salt, key] = String(stored).split('$');
+  const expected = Buffer.from(key || '', 'hex');
+  if (scheme !== 'scrypt' || !salt || expected.length === 0) return false;
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+// Accounts are checked on every request; a short cache keeps that off the bucket
+let usersCache = null;
+
+const loadUsers = async () => {
+  if (usersCache && usersCache.expires > Date.now()) return usersCache.users;
+  const file = await readJsonFile(USERS_PATH, { users: [] });
+  const users = Array.isArray(file.users) ? file.users : [];
+  usersCache = { users, expires: Date.now() + USERS_CACHE_MS };
+  return users;
+};
+
+const hasAdminAccount = (users) => users.some(u => u.role === 'admin');
+
+// Someone can still administer: an admin account exists, or the bootstrap name is free to sign in with
+const canAdminister = (users) => hasAdminAccount(users) || !users.some(u => u.username === BOOTSTRAP_USER);
+
+// Account by username; the bootstrap admin exists only while no admin account does
+const findUser = async (username) => {
+  if (typeof username !== 'string') return null;
+  const users = await loadUsers();
+  const account = users.find(u => u.username === username);
+  if (account) return account;
+  if (username === BOOTSTRAP_USER && !hasAdminAccount(users)) return { username, role: 'admin' };
+  return null;
+};
+
+// Read-modify-write the account list; `mutate` returns an error message to abort
+const updateUsers = async (mutate) => {
+  let error = null;
+  const saved = await updateJsonFile(USERS_PATH, { users: [] }, async (file) => {
+    const users = Array.isArray(file.users) ? file.users : [];
+    error = await mutate(users);
+    return { users, updatedAt: error ? file.updatedAt : new Date().toISOString() };
+  });
+  usersCache = { users: saved.users, expires: Date.now() + USERS_CACHE_MS };
+  return { users: saved.users, error };
+};
+
+// Accounts stored before the flag existed were unlimited unless they listed stations
+const hasAllStations = (account) => account.role !== 'viewer' || (account.allStations ?? !(account.stations?.length > 0));
+
+const publicUser = (account) => {
+  const { username, role, createdAt, updatedAt } = account;
+  const allStations = hasAllStations(account);
+  return { username, role, allStations, stations: allStations ? [] : account.stations || [], createdAt, updatedAt };
+};
+
+// Canonical station names a viewer is limited to, or null for access to every station.
+// A limited viewer with an empty list sees no station at all.
+// Only viewers can be limited: uploads replace whole years, across all stations.
+const userStations = (account) => hasAllStations(account) ? null : account.stations || [];
+
+// Stored station access: viewers keep an explicit allStations flag, with the list when limited
+const setStationAccess = (account, allStations, stations) => {
+  delete account.stations;
+  delete account.allStations;
+  if (account.role !== 'viewer') return;
+  account.allStations = allStations;
+  if (!allStations) account.stations = stations;
+};
+
+// Trimmed, de-duplicated station names; null when invalid
+const sanitizeStations = (list) => {
+  if (!Array.isArray(list) || list.length > MAX_USER_STATIONS) return null;
+  if (!list.every(st => typeof st === 'string' && st.trim() !== '' && st.length <= 200)) return null;
+  const byKey = new Map();
+  list.forEach(st => byKey.set(normalizeAliasKey(st), st.trim()));
+  return Array.from(byKey.values());
+};
+
+// Predicate on raw station names for what the user may see, or null when nothing is hidden.
+// Stored names are canonical, so raw names go through the aliases first.
+const stationFilter = async (user) => {
+  if (!user.stations) return null;
+  const aliases = await readJsonFile(ALIASES_PATH, {});
+  const allowed = new Set(user.stations.map(normalizeAliasKey));
+  return (station) => allowed.has(normalizeAliasKey(resolveAlias(station, aliases.stations || {})));
+};
+
+// Row counts cover every station, so viewers limited to some see versions without them
+const withoutRowCounts = (yearMeta) => {
+  const { rowCount, ...rest } = yearMeta;
+  return rest.history ? { ...rest, history: rest.history.map(v => ({ ...v, rows: null })) } : rest;
+};
+
+const scopedMetadata = (meta, user) => {
+  if (!user.stations || !meta.years) return meta;
+  const years = Object.fromEntries(Object.entries(meta.years).map(([year, yearMeta]) => [year, withoutRowCounts(yearMeta)]));
+  return { ...meta, years };
 };
 
 // --- API Routes ---
 
 // Login
-app.post('/api/auth/login', (req, res) => {
+app.post('/api/auth/login', async (req, res) => {
+  const username = typeof req.body.username === 'string' ? req.body.username.trim().toLowerCase() : '';
   const { password } = req.body;
-  if (password !== ADMIN_PASSWORD) {
-    return res.status(401).json({ error: 'Invalid password' });
+  if (!username || typeof password !== 'string') {
+    return res.status(401).json({ error: 'Invalid username or password' });
+  }
+
+  try {
+    const users = await loadUsers();
+    const account = users.find(u => u.username === username);
+    const valid = account
+      ? await verifyPassword(password, account.passwordHash)
+      : username === BOOTSTRAP_USER && !hasAdminAccount(users) && secretsMatch(password, ADMIN_PASSWORD);
+    if (!valid) {
+      // The attempted name is whatever the client sent; only a well-formed one goes into the trail
+      const wellFormed = USERNAME_PATTERN.test(username);
+      audit(req, { action: 'login', user: wellFormed ? username : null, outcome: 'failure', details: wellFormed ? undefined : { invalidUsername: true } });
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    audit(req, { action: 'login', user: username });
+    const token = jwt.sign({ sub: username }, JWT_SECRET, { expiresIn: '8h' });
+    res.cookie('jwt_auth', token, {
+      httpOnly: true,
+      secure: IS_PROD,
+      sameSite: 'strict',
+      maxAge: 8 * 3600 * 1000 // 8 hours
+    });
+    res.json({ success: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Login failed' });
   }
-  
-  const token = jwt.sign({ role: 'admin' }, JWT_SECRET, { expiresIn: '8h' });
-  res.cookie('jwt_auth', token, {
-    httpOnly: true,
-    secure: IS_PROD,
-    sameSite: 'strict',
-    maxAge: 8 * 3600 * 1000 // 8 hours
-  });
-  res.json({ success: true });
 });
 
 // Logout
@@ -116,20 +488,144 @@ app.post('/api/auth/logout', (req, res) => {
   res.json({ success: true });
 });
 
+// User Accounts (admin)
+app.get('/api/users', requireRole('admin'), async (req, res) => {
+  try {
+    const users = await loadUsers();
+    res.json({ users: users.map(publicUser) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+const isValidPassword = (password) => typeof password === 'string' && password.length >= MIN_PASSWORD_LENGTH;
+
+app.post('/api/users', requireRole('admin'), async (req, res) => {
+  const username = typeof req.body.username === 'string' ? req.body.username.trim().toLowerCase() : '';
+  const { password, role } = req.body;
+  const stations = sanitizeStations(req.body.stations ?? []);
+  // Naming stations limits the account to them unless allStations says otherwise
+  const allStations = req.body.allStations ?? req.body.stations === undefined;
+  if (!USERNAME_PATTERN.test(username) || !ROLES.includes(role) || !stations || typeof allStations !== 'boolean') {
+    return res.status(400).json({ error: 'Invalid input parameters' });
+  }
+  if (!isValidPassword(password)) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const passwordHash = await hashPassword(password);
+    const { users, error } = await updateUsers((users) => {
+      if (users.some(u => u.username === username)) return 'User already exists';
+      if (!canAdminister([...users, { username, role }])) {
+        return `Until an admin account exists, ${BOOTSTRAP_USER} can only be created as an admin`;
+      }
+      const now = new Date().toISOString();
+      const account = { username, role };
+      setStationAccess(account, allStations, stations);
+      users.push({ ...account, passwordHash, createdAt: now, updatedAt: now });
+      return null;
+    });
+    if (error) return res.status(409).json({ error });
+
+    const limited = role === 'viewer' && !allStations;
+    audit(req, { action: 'create_user', details: { account: username, role, allStations: !limited, stations: limited ? stations : [] } });
+    res.json({ users: users.map(publicUser) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+// Change a user's role, station access and/or password
+app.put('/api/users/:username', requireRole('admin'), async (req, res) => {
+  const { username } = req.params;
+  const { password, role, allStations } = req.body;
+  const stations = req.body.stations !== undefined ? sanitizeStations(req.body.stations) : undefined;
+  if (
+    (role !== undefined && !ROLES.includes(role)) || stations === null ||
+    (allStations !== undefined && typeof allStations !== 'boolean') ||
+    (role === undefined && password === undefined && stations === undefined && allStations === undefined)
+  ) {
+    return res.status(400).json({ error: 'Invalid input parameters' });
+  }
+  if (password !== undefined && !isValidPassword(password)) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  try {
+    const passwordHash = password !== undefined ? await hashPassword(password) : null;
+    let status = 400;
+    const { users, error } = await updateUsers((users) => {
+      const account = users.find(u => u.username === username);
+      if (!account) {
+        status = 404;
+        return 'User not found';
+      }
+      if (role !== undefined && role !== 'admin' && account.role === 'admin' && users.filter(u => u.role === 'admin').length === 1) {
+        return 'The last admin cannot be demoted';
+      }
+      // Sending stations alone limits the account to them; limits apply to viewers only
+      const wasAll = hasAllStations(account);
+      const nextAll = allStations ?? (stations !== undefined ? false : wasAll);
+      const nextStations = stations ?? (wasAll ? [] : account.stations || []);
+      if (role !== undefined) account.role = role;
+      setStationAccess(account, nextAll, nextStations);
+      if (passwordHash) account.passwordHash = passwordHash;
+      account.updatedAt = new Date().toISOString();
+      return null;
+    });
+    if (error) return res.status(status).json({ error });
+
+    audit(req, { action: 'update_user', details: { account: username, role, allStations, stations, passwordChanged: !!passwordHash } });
+    res.json({ users: users.map(publicUser) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+app.delete('/api/users/:username', requireRole('admin'), async (req, res) => {
+  const { username } = req.params;
+  if (username === req.user.username) return res.status(400).json({ error: 'You cannot delete your own account' });
+
+  try {
+    let status = 400;
+    const { users, error } = await updateUsers((users) => {
+      const index = users.findIndex(u => u.username === username);
+      if (index === -1) {
+        status = 404;
+        return 'User not found';
+      }
+      if (users[index].role === 'admin' && users.filter(u => u.role === 'admin').length === 1) {
+        return 'The last admin cannot be deleted';
+      }
+      users.splice(index, 1);
+      return null;
+    });
+    if (error) return res.status(status).json({ error });
+
+    audit(req, { action: 'delete_user', details: { account: username } });
+    res.json({ users: users.map(publicUser) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
 // Get Config & Metadata
 app.get('/api/config', requireAuth, async (req, res) => {
   try {
-    const file = bucket.file('metadata.json');
-    const [exists] = await file.exists();
-    if (!exists) {
-      return res.json({ years: {}, lastUpdated: new Date().toISOString() });
+    const object = await storage.read('metadata.json');
+    if (!object) {
+      return res.json({ years: {}, lastUpdated: new Date().toISOString(), yearBounds: yearBounds(), user: req.user });
     }
-    const [content] = await file.download();
     try {
-      res.json(JSON.parse(content.toString()));
+      res.json({ ...scopedMetadata(JSON.parse(object.content.toString()), req.user), yearBounds: yearBounds(), user: req.user });
     } catch (e) {
       console.warn("Corrupt metadata.json found, returning empty config.");
-      res.json({ years: {}, lastUpdated: new Date().toISOString() });
+      res.json({ years: {}, lastUpdated: new Date().toISOString(), yearBounds: yearBounds(), user: req.user });
     }
   } catch (err) {
     console.error(err);
@@ -138,21 +634,21 @@ app.get('/api/config', requireAuth, async (req, res) => {
 });
 
 // Init Upload (Get Signed URL)
-app.post('/api/upload/init', requireAuth, async (req, res) => {
-  const { year, type, hash } = req.body;
+app.post('/api/upload/init', requireRole('uploader'), async (req, res) => {
+  const { year, type, hash, mode = 'replace' } = req.body;
   
-  if (!['2023', '2024', '2025'].includes(year) || type !== 'records' || !/^[a-f0-9]{64}$/.test(hash)) {
+  if (!isYearInBounds(year) || type !== 'records' || !UPLOAD_HASH_PATTERN.test(hash) || !UPLOAD_MODES.includes(mode)) {
     return res.status(400).json({ error: 'Invalid input parameters' });
   }
 
   try {
-    // Check current metadata for hash match
-    const metaFile = bucket.file('metadata.json');
-    const [exists] = await metaFile.exists();
-    if (exists) {
-      const [content] = await metaFile.download();
+    if (!(await isOpenYear(year))) return res.status(409).json({ error: `Year ${year} is not open for uploads` });
+
+    // Check current metadata for hash match (a delta never matches a whole dataset)
+    const metaObject = mode === 'replace' ? await storage.read('metadata.json') : null;
+    if (metaObject) {
       try {
-        const meta = JSON.parse(content.toString());
+        const meta = JSON.parse(metaObject.content.toString());
         if (meta.years && meta.years[year] && meta.years[year].hash === hash) {
           return res.json({ status: 'exists' });
         }
@@ -163,15 +659,9 @@ app.post('/api/upload/init', requireAuth, async (req, res) => {
 
     // Generate path
     const timestamp = Date.now();
-    const fileName = `data/${year}/${timestamp}_${hash}_${type}.json`;
-    const file = bucket.file(fileName);
-
-    const [url] = await file.getSignedUrl({
-      version: 'v4',
-      action: 'write',
-      expires: Date.now() + 15 * 60 * 1000, // 15 min
-      contentType: 'application/json',
-    });
+    const folder = mode === 'append' ? 'deltas' : 'data';
+    const fileName = `${folder}/${year}/${timestamp}_${hash}_${type}.json`;
+    const url = await storage.signedUrl(fileName, 'write', 15 * 60 * 1000); // 15 min
 
     res.json({ status: 'ok', signedUrl: url, path: fileName });
   } catch (err) {
@@ -180,74 +670,351 @@ app.post('/api/upload/init', requireAuth, async (req, res) => {
   }
 });
 
+const CHARGE_TYPES = ['zero', 'negative', 'complimentary'];
+const MAX_REPORTED_PROBLEMS = 10;
+
+// Problems with one uploaded record, as short messages; empty when it is valid for `year`
+const recordProblems = (r, year) => {
+  if (!r || typeof r !== 'object' || Array.isArray(r)) return ['not an object'];
+  const problems = [];
+  const isText = (v) => typeof v === 'string' && v.trim() !== '';
+  const isNumber = (v) => typeof v === 'number' && Number.isFinite(v);
+
+  if (!Number.isInteger(r.id)) problems.push('id is not an integer');
+  ['station', 'stationKey', 'group', 'groupKey'].forEach(f => { if (!isText(r[f])) problems.push(`${f} is missing`); });
+  if (typeof r.date !== 'string' || isNaN(Date.parse(r.date))) problems.push('date is not a valid date');
+  if (typeof r.monthKey !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(r.monthKey)) problems.push('monthKey is not YYYY-MM');
+  if (!Number.isInteger(r.day) || r.day < 1 || r.day > 31) problems.push('day is not 1-31');
+  if (!isNumber(r.days) || r.days <= 0) problems.push('days is not a positive number');
+  if (!isNumber(r.charge)) problems.push('charge is not a number');
+  if (r.year !== Number(year) || (typeof r.monthKey === 'string' && !r.monthKey.startsWith(`${year}-`))) {
+    problems.push(`belongs to ${r.year ?? 'no year'} instead of ${year}`);
+  }
+  if (r.returnDate !== undefined && (typeof r.returnDate !== 'string' || isNaN(Date.parse(r.returnDate)))) problems.push('returnDate is not a valid date');
+  if (r.currency !== undefined && !/^[A-Z]{3}$/.test(r.currency)) problems.push('currency is not a 3-letter code');
+  if (r.chargeType !== undefined && !CHARGE_TYPES.includes(r.chargeType)) problems.push('chargeType is unknown');
+  return problems;
+};
+
+// Check an uploaded object against the hash the client claimed; returns its records or the reasons to reject it
+const verifyUpload = (content, year, hash) => {
+  const actualHash = createHash('sha256').update(content).digest('hex');
+  if (actualHash !== hash) return { problems: [`Content hash ${actualHash.slice(0, 12)}… does not match the declared ${hash.slice(0, 12)}…`] };
+
+  let records;
+  try {
+    records = JSON.parse(content.toString());
+  } catch (e) {
+    return { problems: ['File is not valid JSON'] };
+  }
+  if (!Array.isArray(records)) return { problems: ['File is not a list of records'] };
+  if (records.length === 0) return { problems: ['File contains no records'] };
+
+  const problems = [];
+  let invalid = 0;
+  records.forEach((r, i) => {
+    const found = recordProblems(r, year);
+    if (found.length === 0) return;
+    invalid++;
+    if (problems.length < MAX_REPORTED_PROBLEMS) problems.push(`Record ${i + 1}: ${found.join(', ')}`);
+  });
+  if (invalid > 0) return { problems: [`${invalid.toLocaleString()} of ${records.length.toLocaleString()} records are invalid`, ...problems] };
+  return { records };
+};
+
+// Move a rejected upload aside, with the reasons next to it, so it can be inspected but never activated.
+// A file some version already points at is only copied; removing it would break that version.
+const quarantineUpload = async (fileName, content, problems, req, year, hash) => {
+  const target = `quarantine/${fileName}`;
+  await storage.write(target, content);
+  await storage.write(`${target}.rejection.json`, JSON.stringify({
+    source: fileName,
+    problems,
+    rejectedAt: new Date().toISOString(),
+    rejectedBy: req.actor || null
+  }, null, 2));
+  if (!(await isVersionFile(year, fileName))) await storage.remove(fileName);
+  audit(req, { action: 'quarantine_upload', year, hash, outcome: 'rejected', details: { file: fileName, problems: problems.slice(0, 3) } });
+};
+
+// Read and verify an uploaded object; on failure it is quarantined and a 422 is sent
+const loadVerifiedUpload = async (fileName, year, hash, req, res) => {
+  const object = await storage.read(fileName);
+  if (!object) {
+    res.status(404).json({ error: 'Uploaded file missing' });
+    return null;
+  }
+  const { records, problems } = verifyUpload(object.content, year, hash);
+  if (problems) {
+    await quarantineUpload(fileName, object.content, problems, req, year, hash);
+    res.status(422).json({ error: `Upload rejected: ${problems[0]}`, problems });
+    return null;
+  }
+  return records;
+};
+
+const statsPathFor = (year, hash) => `stats/${year}/${hash}.json`;
+
+// Store the cube next to the records it was built from
+const writeStatsCube = async (records, year, hash) => {
+  const statsPath = statsPathFor(year, hash);
+  await storage.write(statsPath, JSON.stringify(buildStatsCube(records, year, hash)));
+  return statsPath;
+};
+
 // Finalize Upload
-app.post('/api/upload/finalize', requireAuth, async (req, res) => {
-  const { year, type, hash } = req.body;
+app.post('/api/upload/finalize', requireRole('uploader'), async (req, res) => {
+  const { year, type, hash, mode = 'replace' } = req.body;
   
   // Basic validation
-  if (!year || !hash) return res.status(400).json({ error: 'Missing parameters' });
+  if (!year || !hash || !UPLOAD_MODES.includes(mode)) return res.status(400).json({ error: 'Missing parameters' });
+  if (!isYearInBounds(year)) return res.status(400).json({ error: 'Invalid year' });
+  if (!UPLOAD_HASH_PATTERN.test(hash)) return res.status(400).json({ error: 'Invalid hash' });
+  if (mode === 'append') return finalizeAppend(req, res);
 
   try {
-    // 1. Audit Log (Console only, to avoid GCS append issues)
-    const auditEntry = {
-      timestamp: new Date().toISOString(),
-      action: 'finalize_upload',
+    const recordsFile = await findRecordsFile(year, hash);
+    if (!recordsFile) return res.status(404).json({ error: 'Uploaded file missing' });
+    const records = await loadVerifiedUpload(recordsFile, year, hash, req, res);
+    if (!records) return;
+    const statsPath = await writeStatsCube(records, year, hash);
+
+    // Earlier versions stay in the history
+    await updateJsonFile('metadata.json', { years: {}, lastUpdated: '' }, (meta) => {
+      addVersion(meta, year, { hash, rows: records.length, path: recordsFile, statsPath, mode: 'replace', actor: req.actor });
+      return meta;
+    });
+
+    audit(req, { action: 'finalize_upload', year, hash, details: { rows: records.length } });
+    res.json({ success: true });
+  } catch (err) {
+    console.error("Finalization Error:", err);
+    audit(req, { action: 'finalize_upload', year, hash, outcome: 'failure', details: { error: err.message } });
+    if (err.code === 412) return res.status(409).json({ error: 'Metadata kept changing during finalization, please retry' });
+    res.status(500).json({ error: 'Finalization failed' });
+  }
+});
+
+// Merge an uploaded delta into the year's active records as a new version
+const finalizeAppend = async (req, res) => {
+  const { year, hash } = req.body;
+  try {
+    const deltaFiles = await storage.list(`deltas/${year}/`);
+    const deltaFile = deltaFiles.filter(name => isUploadOf(name, hash)).pop();
+    if (!deltaFile) return res.status(404).json({ error: 'Delta file missing' });
+
+    const delta = await loadVerifiedUpload(deltaFile, year, hash, req, res);
+    if (!delta) return;
+
+    // Merging happens inside the metadata lock, so a concurrent upload triggers a re-merge
+    let result;
+    await updateJsonFile('metadata.json', { years: {}, lastUpdated: '' }, async (meta) => {
+      if (!meta.years) meta.years = {};
+      const current = meta.years[year];
+
+      let existing = [];
+      if (current?.hash) {
+        const file = current.recordsPath || await findRecordsFile(year, current.hash);
+        if (!file) throw new Error(`Active ${year} dataset is missing`);
+        existing = await downloadJson(file);
+      }
+
+      const { records, report } = mergeDelta(existing, delta);
+      const mergedHash = hashJson(records);
+      if (mergedHash === current?.hash) {
+        result = { ...report, version: current.version, hash: mergedHash, unchanged: true };
+        return meta;
+      }
+
+      const mergedPath = `data/${year}/${Date.now()}_${mergedHash}_records.json`;
+      await storage.write(mergedPath, JSON.stringify(records));
+      const statsPath = await writeStatsCube(records, year, mergedHash);
+
+      const { version } = addVersion(meta, year, { hash: mergedHash, rows: records.length, path: mergedPath, statsPath, mode: 'append', actor: req.actor });
+      result = { ...report, version, hash: mergedHash };
+      return meta;
+    });
+
+    audit(req, {
+      action: 'finalize_append',
       year,
       hash,
-      ip: req.ip
-    };
-    console.log('[AUDIT]', JSON.stringify(auditEntry));
+      details: { version: result.version, mergedHash: result.hash, added: result.added, replaced: result.replaced, removed: result.removed }
+    });
+    res.json({ success: true, delta: result });
+  } catch (err) {
+    console.error("Append Error:", err);
+    audit(req, { action: 'finalize_append', year, hash, outcome: 'failure', details: { error: err.message } });
+    if (err.code === 412) return res.status(409).json({ error: 'Metadata kept changing during the merge, please retry' });
+    res.status(500).json({ error: 'Append failed' });
+  }
+};
 
-    // 2. Optimistic Lock Metadata Update
-    const metaFile = bucket.file('metadata.json');
-    
-    // Simple retry loop for concurrency
-    let retries = 3;
-    while (retries > 0) {
-      try {
-        const [exists] = await metaFile.exists();
-        let meta = { years: {}, lastUpdated: '' };
-        let options = {};
-
-        if (exists) {
-          const [content, metadata] = await metaFile.download();
-          try {
-            meta = JSON.parse(content.toString());
-          } catch (e) {
-            console.warn("Metadata file exists but is invalid JSON. Overwriting.");
-            meta = { years: {}, lastUpdated: '' };
-          }
-          // Optimistic locking
-          options.ifGenerationMatch = metadata.generation;
-        } else {
-          options.ifGenerationMatch = 0;
-        }
+// Column Mapping Profiles
+app.get('/api/mapping-profiles', requireAuth, async (req, res) => {
+  try {
+    const store = await readJsonFile(MAPPING_PROFILES_PATH, { profiles: {} });
+    res.json({ profiles: Object.values(store.profiles || {}) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch mapping profiles' });
+  }
+});
 
-        // Update Metadata
-        meta.lastUpdated = new Date().toISOString();
-        if (!meta.years) meta.years = {};
-        meta.years[year] = {
-          status: 'active',
-          version: (meta.years[year]?.version || 0) + 1,
-          hash,
-        };
-
-        await metaFile.save(JSON.stringify(meta, null, 2), options);
-        break; // Success
-      } catch (e) {
-        if (e.code === 412) { // Precondition Failed
-          retries--;
-          console.log(`Metadata update collision (412), retrying... (${retries} left)`);
-          continue;
-        }
-        throw e;
-      }
-    }
+app.put('/api/mapping-profiles/:name', requireRole('uploader'), async (req, res) => {
+  const name = String(req.params.name || '').trim();
+  const { mapping, locale, chargeRules, headers } = req.body;
+
+  const isValidMapping = mapping && typeof mapping === 'object' &&
+    Object.entries(mapping).every(([field, column]) => MAPPING_FIELDS.includes(field) && typeof column === 'string');
+  const isValidLocale = locale === undefined || (
+    locale && DATE_ORDERS.includes(locale.dateOrder) &&
+    ['.', ','].includes(locale.decimalSeparator) &&
+    ['', '.', ',', ' ', "'"].includes(locale.thousandsSeparator) &&
+    Array.isArray(locale.currencySymbols) && locale.currencySymbols.every(sym => typeof sym === 'string')
+  );
+  const isValidChargeRules = chargeRules === undefined || (
+    chargeRules && ZERO_CHARGE_ACTIONS.includes(chargeRules.zero) && NEGATIVE_CHARGE_ACTIONS.includes(chargeRules.negative)
+  );
+  if (!name || name.length > 64 || !isValidMapping || !isValidLocale || !isValidChargeRules || !Array.isArray(headers)) {
+    return res.status(400).json({ error: 'Invalid input parameters' });
+  }
 
+  try {
+    const profile = {
+      name,
+      mapping,
+      ...(locale ? { locale } : {}),
+      ...(chargeRules ? { chargeRules: { zero: chargeRules.zero, negative: chargeRules.negative } } : {}),
+      headers: headers.map(String).slice(0, 500),
+      updatedAt: new Date().toISOString()
+    };
+    await updateJsonFile(MAPPING_PROFILES_PATH, { profiles: {} }, (store) => {
+      store.profiles = { ...(store.profiles || {}), [name]: profile };
+      return store;
+    });
+    audit(req, { action: 'save_mapping_profile', details: { profile: name } });
+    res.json({ success: true, profile });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to save mapping profile' });
+  }
+});
+
+app.delete('/api/mapping-profiles/:name', requireRole('uploader'), async (req, res) => {
+  const name = String(req.params.name || '').trim();
+  try {
+    await updateJsonFile(MAPPING_PROFILES_PATH, { profiles: {} }, (store) => {
+      if (store.profiles) delete store.profiles[name];
+      return store;
+    });
+    audit(req, { action: 'delete_mapping_profile', details: { profile: name } });
     res.json({ success: true });
   } catch (err) {
-    console.error("Finalization Error:", err);
-    res.status(500).json({ error: 'Finalization failed' });
+    console.error(err);
+    res.status(500).json({ error: 'Failed to delete mapping profile' });
+  }
+});
+
+// Station & Car Group Aliases
+
+// Validate a raw -> canonical map, normalizing its keys; returns null when invalid
+const sanitizeAliasMap = (map) => {
+  if (!map || typeof map !== 'object' || Array.isArray(map)) return null;
+  const entries = Object.entries(map);
+  if (entries.length > MAX_ALIASES) return null;
+  const result = {};
+  for (const [raw, canonical] of entries) {
+    if (typeof canonical !== 'string' || !canonical.trim() || !normalizeAliasKey(raw)) return null;
+    result[normalizeAliasKey(raw)] = canonical.trim();
+  }
+  return result;
+};
+
+app.get('/api/aliases', requireAuth, async (req, res) => {
+  try {
+    const aliases = await readJsonFile(ALIASES_PATH, { stations: {}, groups: {} });
+    res.json({ stations: aliases.stations || {}, groups: aliases.groups || {}, updatedAt: aliases.updatedAt });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch aliases' });
+  }
+});
+
+app.put('/api/aliases', requireRole('admin'), async (req, res) => {
+  const stations = sanitizeAliasMap(req.body.stations);
+  const groups = sanitizeAliasMap(req.body.groups);
+  if (!stations || !groups) {
+    return res.status(400).json({ error: 'Invalid input parameters' });
+  }
+
+  try {
+    const saved = await updateJsonFile(ALIASES_PATH, {}, () => ({
+      stations,
+      groups,
+      updatedAt: new Date().toISOString()
+    }));
+    audit(req, { action: 'update_aliases', details: { stations: Object.keys(stations).length, groups: Object.keys(groups).length } });
+    res.json(saved);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to save aliases' });
+  }
+});
+
+// FX Rates & Station Currencies
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const MONTH_KEY = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+const isValidFxRate = (r) =>
+  r && MONTH_KEY.test(r.month) && CURRENCY_CODE.test(r.currency) &&
+  typeof r.rate === 'number' && Number.isFinite(r.rate) && r.rate > 0;
+
+app.get('/api/fx-rates', requireAuth, async (req, res) => {
+  try {
+    const fx = await readJsonFile(FX_RATES_PATH, {});
+    res.json({
+      baseCurrency: fx.baseCurrency || 'EUR',
+      rates: fx.rates || [],
+      stationCurrencies: fx.stationCurrencies || {},
+      updatedAt: fx.updatedAt
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch FX rates' });
+  }
+});
+
+app.put('/api/fx-rates', requireRole('admin'), async (req, res) => {
+  const { baseCurrency, rates, stationCurrencies } = req.body;
+  const stationMap = stationCurrencies && typeof stationCurrencies === 'object' && !Array.isArray(stationCurrencies)
+    ? Object.entries(stationCurrencies)
+    : null;
+  if (
+    !CURRENCY_CODE.test(baseCurrency) ||
+    !Array.isArray(rates) || rates.length > MAX_FX_RATES || !rates.every(isValidFxRate) ||
+    !stationMap || stationMap.length > MAX_ALIASES ||
+    !stationMap.every(([station, code]) => normalizeAliasKey(station) && CURRENCY_CODE.test(code))
+  ) {
+    return res.status(400).json({ error: 'Invalid input parameters' });
+  }
+
+  // One rate per currency and month; the last one sent wins
+  const byKey = new Map();
+  rates.forEach(r => byKey.set(`${r.currency}|${r.month}`, { month: r.month, currency: r.currency, rate: r.rate }));
+
+  try {
+    const saved = await updateJsonFile(FX_RATES_PATH, {}, () => ({
+      baseCurrency,
+      rates: Array.from(byKey.values()).filter(r => r.currency !== baseCurrency),
+      stationCurrencies: Object.fromEntries(stationMap.map(([station, code]) => [normalizeAliasKey(station), code])),
+      updatedAt: new Date().toISOString()
+    }));
+    audit(req, { action: 'update_fx_rates', details: { baseCurrency, rates: saved.rates.length } });
+    res.json(saved);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to save FX rates' });
   }
 });
 
@@ -255,14 +1022,12 @@ app.post('/api/upload/finalize', requireAuth, async (req, res) => {
 app.get('/api/years/:year/records', requireAuth, async (req, res) => {
   const { year } = req.params;
   try {
-    const metaFile = bucket.file('metadata.json');
-    const [exists] = await metaFile.exists();
-    if (!exists) return res.status(404).json({ error: 'Data not initialized' });
+    const metaObject = await storage.read('metadata.json');
+    if (!metaObject) return res.status(404).json({ error: 'Data not initialized' });
 
-    const [content] = await metaFile.download();
     let meta;
     try {
-      meta = JSON.parse(content.toString());
+      meta = JSON.parse(metaObject.content.toString());
     } catch (e) {
       return res.status(500).json({ error: 'Metadata corruption' });
     }
@@ -272,16 +1037,14 @@ app.get('/api/years/:year/records', requireAuth, async (req, res) => {
     }
 
     // Improved Logic: We search for the file with the hash in the name.
-    const [files] = await bucket.getFiles({ prefix: `data/${year}/` });
-    const file = files.find(f => f.name.includes(meta.years[year].hash));
+    const file = meta.years[year].recordsPath || await findRecordsFile(year, meta.years[year].hash);
 
     if (!file) return res.status(404).json({ error: 'File object missing' });
 
-    const [url] = await file.getSignedUrl({
-      version: 'v4',
-      action: 'read',
-      expires: Date.now() + 60 * 60 * 1000, // 1 hour
-    });
+    // Station-limited users never get the full file; the server filters it for them
+    if (req.user.stations) return res.json({ url: `/api/years/${encodeURIComponent(year)}/records/scoped` });
+
+    const url = await storage.signedUrl(file, 'read', 60 * 60 * 1000); // 1 hour
 
     res.json({ url });
   } catch (err) {
@@ -290,12 +1053,438 @@ app.get('/api/years/:year/records', requireAuth, async (req, res) => {
   }
 });
 
+// Active records limited to the caller's stations
+app.get('/api/years/:year/records/scoped', requireAuth, async (req, res) => {
+  const { year } = req.params;
+  try {
+    const meta = await readJsonFile('metadata.json', { years: {} });
+    const yearMeta = meta.years?.[year];
+    if (!yearMeta?.hash) return res.status(404).json({ error: 'Data not found' });
+    const file = yearMeta.recordsPath || await findRecordsFile(year, yearMeta.hash);
+    if (!file) return res.status(404).json({ error: 'File object missing' });
+
+    const isAllowed = await stationFilter(req.user);
+    const records = await downloadJson(file);
+    res.json(isAllowed ? records.filter(r => isAllowed(r.station)) : records);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch records' });
+  }
+});
+
+// Open a year for uploads; it shows up in the console before any data exists
+app.post('/api/years', requireRole('admin'), async (req, res) => {
+  const year = String(req.body.year ?? '');
+  if (!isYearInBounds(year)) {
+    const { min, max } = yearBounds();
+    return res.status(400).json({ error: `Year must be between ${min} and ${max}` });
+  }
+
+  try {
+    const meta = await updateJsonFile('metadata.json', { years: {}, lastUpdated: '' }, (meta) => {
+      if (!meta.years) meta.years = {};
+      if (!meta.years[year]) {
+        meta.years[year] = { status: 'pending', version: 0, rowCount: 0, history: [] };
+        meta.lastUpdated = new Date().toISOString();
+      }
+      return meta;
+    });
+
+    audit(req, { action: 'open_year', year });
+    res.json({ success: true, metadata: { ...meta, yearBounds: yearBounds() } });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to open year' });
+  }
+});
+
+// Path of the active version's cube; versions stored before cubes existed get one on first request
+const ensureStatsCube = async (year, yearMeta) => {
+  if (yearMeta.statsPath) return yearMeta.statsPath;
+  const statsPath = statsPathFor(year, yearMeta.hash);
+  if (!(await storage.read(statsPath))) {
+    const recordsPath = yearMeta.recordsPath || await findRecordsFile(year, yearMeta.hash);
+    if (!recordsPath) return null;
+    await writeStatsCube(await downloadJson(recordsPath), year, yearMeta.hash);
+  }
+  return statsPath;
+};
+
+// Get Stats Cube (Read Signed URL)
+app.get('/api/years/:year/stats', requireAuth, async (req, res) => {
+  const { year } = req.params;
+  try {
+    const meta = await readJsonFile('metadata.json', { years: {} });
+    const yearMeta = meta.years?.[year];
+    if (!yearMeta?.hash) return res.status(404).json({ error: 'Data not found' });
+
+    const statsPath = await ensureStatsCube(year, yearMeta);
+    if (!statsPath) return res.status(404).json({ error: 'File object missing' });
+
+    if (req.user.stations) return res.json({ url: `/api/years/${encodeURIComponent(year)}/stats/scoped` });
+
+    const url = await storage.signedUrl(statsPath, 'read', 60 * 60 * 1000); // 1 hour
+    res.json({ url });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to get stats link' });
+  }
+});
+
+// Stats cube limited to the caller's stations
+app.get('/api/years/:year/stats/scoped', requireAuth, async (req, res) => {
+  const { year } = req.params;
+  try {
+    const meta = await readJsonFile('metadata.json', { years: {} });
+    const yearMeta = meta.years?.[year];
+    if (!yearMeta?.hash) return res.status(404).json({ error: 'Data not found' });
+    const statsPath = await ensureStatsCube(year, yearMeta);
+    if (!statsPath) return res.status(404).json({ error: 'File object missing' });
+
+    const isAllowed = await stationFilter(req.user);
+    const cube = await downloadJson(statsPath);
+    if (!isAllowed) return res.json(cube);
+    const cells = cube.cells.filter(c => isAllowed(c.station));
+    res.json({ ...cube, rows: cells.reduce((acc, c) => acc + c.count, 0), cells });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch stats' });
+  }
+});
+
+// Version History
+app.get('/api/years/:year/versions', requireAuth, async (req, res) => {
+  const { year } = req.params;
+  try {
+    const meta = await readJsonFile('metadata.json', { years: {} });
+    const yearMeta = meta.years?.[year];
+    if (!yearMeta) return res.status(404).json({ error: 'Data not found' });
+    const versions = [...yearHistory(yearMeta)].reverse();
+    res.json({ active: yearMeta.version, versions: req.user.stations ? versions.map(v => ({ ...v, rows: null })) : versions });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to fetch versions' });
+  }
+});
+
+// Rollback: point the year at an earlier version; the history itself is unchanged
+app.post('/api/years/:year/versions/:version/activate', requireRole('admin'), async (req, res) => {
+  const { year } = req.params;
+  const version = Number(req.params.version);
+  if (!Number.isInteger(version) || version < 1) return res.status(400).json({ error: 'Invalid version' });
+
+  try {
+    let status = 200;
+    let error = null;
+    const meta = await updateJsonFile('metadata.json', { years: {}, lastUpdated: '' }, async (meta) => {
+      const yearMeta = meta.years?.[year];
+      const target = yearHistory(yearMeta).find(v => v.version === version);
+      if (!target) {
+        status = 404;
+        error = 'Version not found';
+        return meta;
+      }
+      const recordsPath = target.path || await findRecordsFile(year, target.hash);
+      if (!recordsPath) {
+        status = 404;
+        error = 'Version file missing';
+        return meta;
+      }
+      const now = new Date().toISOString();
+      meta.lastUpdated = now;
+      meta.years[year] = {
+        ...yearMeta,
+        status: 'active',
+        version: target.version,
+        hash: target.hash,
+        rowCount: target.rows,
+        recordsPath,
+        statsPath: target.statsPath,
+        lastUpdated: now,
+        history: yearHistory(yearMeta),
+        activatedAt: now,
+        activatedBy: req.actor || null
+      };
+      return meta;
+    });
+    if (error) {
+      audit(req, { action: 'activate_version', year, outcome: 'failure', details: { version, error } });
+      return res.status(status).json({ error });
+    }
+
+    audit(req, { action: 'activate_version', year, hash: meta.years[year].hash, details: { version } });
+    res.json({ success: true, metadata: meta });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to activate version' });
+  }
+});
+
+// Row content without the position-dependent id
+const rowKey = ({ id, ...rest }) => JSON.stringify(rest);
+
+const DIFF_SAMPLE_SIZE = 20;
+
+// Rows only in `to` (added), only in `from` (removed), and per-month revenue/days on both sides
+const diffRecords = (from, to) => {
+  const remaining = new Map();
+  from.forEach(r => {
+    const key = rowKey(r);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+
+  const added = [];
+  to.forEach(r => {
+    const key = rowKey(r);
+    const count = remaining.get(key) || 0;
+    if (count > 0) remaining.set(key, count - 1);
+    else added.push(r);
+  });
+  const removed = [];
+  from.forEach(r => {
+    const key = rowKey(r);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      removed.push(r);
+    }
+  });
+
+  const months = new Map();
+  const monthOf = (key) => {
+    if (!months.has(key)) months.set(key, { month: key, revenueFrom: 0, revenueTo: 0, daysFrom: 0, daysTo: 0 });
+    return months.get(key);
+  };
+  from.forEach(r => {
+    const m = monthOf(r.monthKey);
+    m.revenueFrom += Number(r.charge) || 0;
+    m.daysFrom += Number(r.days) || 0;
+  });
+  to.forEach(r => {
+    const m = monthOf(r.monthKey);
+    m.revenueTo += Number(r.charge) || 0;
+    m.daysTo += Number(r.days) || 0;
+  });
+
+  return {
+    added: added.length,
+    removed: removed.length,
+    unchanged: to.length - added.length,
+    addedSample: added.slice(0, DIFF_SAMPLE_SIZE),
+    removedSample: removed.slice(0, DIFF_SAMPLE_SIZE),
+    months: Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month))
+  };
+};
+
+app.get('/api/years/:year/diff', requireAuth, async (req, res) => {
+  const { year } = req.params;
+  const from = Number(req.query.from);
+  const to = Number(req.query.to);
+
+  try {
+    const meta = await readJsonFile('metadata.json', { years: {} });
+    const history = yearHistory(meta.years?.[year]);
+    const fromVersion = history.find(v => v.version === from);
+    const toVersion = history.find(v => v.version === to);
+    if (!fromVersion || !toVersion) return res.status(404).json({ error: 'Version not found' });
+
+    const [fromFile, toFile] = await Promise.all([fromVersion, toVersion].map(v => v.path || findRecordsFile(year, v.hash)));
+    if (!fromFile || !toFile) return res.status(404).json({ error: 'Version file missing' });
+    const [fromRecords, toRecords] = await Promise.all([downloadJson(fromFile), downloadJson(toFile)]);
+
+    const isAllowed = await stationFilter(req.user);
+    res.json({
+      from,
+      to,
+      ...(isAllowed
+        ? diffRecords(fromRecords.filter(r => isAllowed(r.station)), toRecords.filter(r => isAllowed(r.station)))
+        : diffRecords(fromRecords, toRecords))
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to compare versions' });
+  }
+});
+
+// --- Aggregation Query (BI tools) ---
+// Answers from the stats cubes; the math lives in server/query.js
+
+const QUERY_METRICS = ['revenue', 'days', 'count', 'rate'];
+const QUERY_GRANULARITIES = ['year', 'month', 'period'];
+const MAX_QUERY_YEARS = 10;
+const SINGLE_QUERY_PARAMS = ['baseline', 'dateRange', 'charges', 'granularity', 'format', 'currency'];
+
+// Comma separated or repeated query parameter -> trimmed, non-empty values
+const queryList = (value) => [].concat(value ?? [])
+  .flatMap(v => String(v).split(','))
+  .map(v => v.trim())
+  .filter(Boolean);
+
+const parseQuery = (query) => {
+  // Repeated (?format=csv&format=json) or nested parameters arrive as arrays and objects
+  const repeated = SINGLE_QUERY_PARAMS.find(name => query[name] !== undefined && typeof query[name] !== 'string');
+  if (repeated) return { error: `${repeated} must be given once` };
+
+  const years = queryList(query.years);
+  if (years.length === 0 || years.length > MAX_QUERY_YEARS || !years.every(isYearInBounds)) {
+    return { error: `years must list 1 to ${MAX_QUERY_YEARS} dataset years` };
+  }
+  const baseline = query.baseline !== undefined ? String(query.baseline) : (years[1] ?? null);
+  if (baseline !== null && !years.includes(baseline)) return { error: 'baseline must be one of the requested years' };
+
+  const dateRange = query.dateRange ?? 'All';
+  if (!Object.hasOwn(QUERY_DATE_RANGES, dateRange)) return { error: `dateRange must be one of ${Object.keys(QUERY_DATE_RANGES).join(', ')}` };
+  const charges = query.charges ?? 'all';
+  if (charges !== 'all' && charges !== 'regular' && !CHARGE_TYPES.includes(charges)) {
+    return { error: `charges must be one of all, regular, ${CHARGE_TYPES.join(', ')}` };
+  }
+  const granularity = query.granularity ?? 'month';
+  if (!QUERY_GRANULARITIES.includes(granularity)) return { error: `granularity must be one of ${QUERY_GRANULARITIES.join(', ')}` };
+  const metrics = query.metrics === undefined ? QUERY_METRICS : queryList(query.metrics);
+  if (metrics.length === 0 || !metrics.every(m => QUERY_METRICS.includes(m))) {
+    return { error: `metrics must be a list of ${QUERY_METRICS.join(', ')}` };
+  }
+  const format = query.format ?? 'json';
+  if (format !== 'json' && format !== 'csv') return { error: 'format must be json or csv' };
+  const currency = query.currency !== undefined ? String(query.currency).toUpperCase() : null;
+  if (currency !== null && !CURRENCY_CODE.test(currency)) return { error: 'currency must be an ISO currency code' };
+
+  return {
+    years, baseline, dateRange, charges, granularity, metrics, format, currency,
+    stations: queryList(query.stations),
+    groups: queryList(query.groups)
+  };
+};
+
+// Text starting like a formula is prefixed with a quote so spreadsheets show it instead of evaluating it
+const csvCell = (val) => {
+  if (val === null || val === undefined) return '';
+  let text = String(val);
+  if (typeof val === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const queryCsv = (q, rows) => {
+  const columns = ['year'];
+  if (q.granularity !== 'year') columns.push('month');
+  if (q.granularity === 'period') columns.push('period');
+  columns.push(...q.metrics);
+  if (q.baseline !== null) columns.push(...q.metrics.map(m => `${m}_variance`));
+
+  const lines = [columns.join(',')];
+  rows.forEach(r => {
+    lines.push(columns.map(c => csvCell(c.endsWith('_variance') ? r.variance?.[c.slice(0, -9)] : r[c])).join(','));
+  });
+  return lines.join('\n') + '\n';
+};
+
+app.get('/api/query', requireAuth, async (req, res) => {
+  const q = parseQuery(req.query);
+  if (q.error) return res.status(400).json({ error: q.error });
+
+  try {
+    const [meta, aliases, fxFile] = await Promise.all([
+      readJsonFile('metadata.json', { years: {} }),
+      readJsonFile(ALIASES_PATH, {}),
+      readJsonFile(FX_RATES_PATH, {})
+    ]);
+    const aliasMaps = { stations: aliases.stations || {}, groups: aliases.groups || {} };
+    const fx = { baseCurrency: fxFile.baseCurrency || 'EUR', rates: fxFile.rates || [], stationCurrencies: fxFile.stationCurrencies || {} };
+    const currency = q.currency || fx.baseCurrency;
+
+    const isAllowed = await stationFilter(req.user);
+    const missing = new Map();
+    const bucketsByYear = {};
+    for (const year of q.years) {
+      const yearMeta = meta.years?.[year];
+      if (!yearMeta?.hash) return res.status(404).json({ error: `No dataset for ${year}` });
+      const statsPath = await ensureStatsCube(year, yearMeta);
+      if (!statsPath) return res.status(404).json({ error: `File object missing for ${year}` });
+      bucketsByYear[year] = aggregateCube(await downloadJson(statsPath), q, aliasMaps, fx, currency, missing, isAllowed);
+    }
+
+    const { rows, totals } = buildQueryRows(q, bucketsByYear);
+    const missingRates = Array.from(missing.values()).sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency));
+
+    if (q.format === 'csv') {
+      res.type('text/csv');
+      res.set('Content-Disposition', 'attachment; filename="rate-query.csv"');
+      return res.send(queryCsv(q, rows));
+    }
+    res.json({
+      query: {
+        years: q.years.map(Number),
+        baseline: q.baseline !== null ? Number(q.baseline) : null,
+        stations: q.stations,
+        groups: q.groups,
+        dateRange: q.dateRange,
+        charges: q.charges,
+        granularity: q.granularity,
+        metrics: q.metrics
+      },
+      currency,
+      rows,
+      totals,
+      missingRates
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Query failed' });
+  }
+});
+
+// Audit Trail (admin); filter by day range, user, action, year and outcome
+app.get('/api/audit', requireRole('admin'), async (req, res) => {
+  const { from, to, user, action, year, outcome, format = 'json' } = req.query;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : 500;
+  const isDay = (val) => val === undefined || (/^\d{4}-\d{2}-\d{2}$/.test(val) && !isNaN(Date.parse(val)));
+  if (
+    !isDay(from) || !isDay(to) ||
+    (outcome !== undefined && !AUDIT_OUTCOMES.includes(outcome)) ||
+    !Number.isInteger(limit) || limit < 1 || limit > MAX_AUDIT_ENTRIES ||
+    (format !== 'json' && format !== 'csv') ||
+    [user, action, year].some(val => val !== undefined && typeof val !== 'string')
+  ) {
+    return res.status(400).json({ error: 'Invalid input parameters' });
+  }
+
+  try {
+    const { entries, truncated } = await auditLog.query({ from, to, user, action, year, outcome, limit });
+    if (format === 'csv') {
+      const columns = ['timestamp', 'user', 'action', 'year', 'hash', 'ip', 'outcome', 'details'];
+      const lines = [columns.join(',')];
+      entries.forEach(e => {
+        lines.push(columns.map(c => csvCell(c === 'details' && e.details ? JSON.stringify(e.details) : e[c])).join(','));
+      });
+      res.type('text/csv');
+      res.set('Content-Disposition', 'attachment; filename="audit-log.csv"');
+      return res.send(lines.join('\n') + '\n');
+    }
+    res.json({ entries, truncated, unstored: auditLog.status() });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: 'Failed to read audit log' });
+  }
+});
+
+// For load balancers and uptime checks. Audit trouble is reported but stays healthy:
+// restarting the instance would lose the entries held in memory.
+app.get('/api/health', (req, res) => {
+  res.json({ status: 'ok', audit: auditLog.status() ? 'degraded' : 'ok' });
+});
+
 // Serve React App
 app.use(express.static(path.join(__dirname, 'dist')));
 app.get('*', (req, res) => {
   res.sendFile(path.join(__dirname, 'dist', 'index.html'));
 });
 
+// Write buffered audit entries before the platform stops the instance
+process.on('SIGTERM', async () => {
+  await auditLog.flush();
+  process.exit(0);
+});
+
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
\ No newline at end of file
@@ -0,0 +1,7 @@
+// Station & car group aliases, looked up the way src/utils/aliases.ts does on the client
+
+// Lookup key for raw names: case, outer and repeated whitespace don't matter
+export const normalizeAliasKey = (raw) => String(raw).toLowerCase().trim().replace(/\s+/g, ' ');
+
+// Canonical name for a raw value, or the trimmed raw value when it has no alias
+export const resolveAlias = (raw, aliases) => aliases[normalizeAliasKey(raw)] || String(raw).trim();
@@ -0,0 +1,163 @@
+import { randomBytes } from 'crypto';
+
+// Append-only audit trail kept in the storage backend. Entries are buffered briefly and
+// written as new segment objects, audit/<day>/<time>-<id>.jsonl, one entry per line.
+// Segments are created with ifGenerationMatch 0, so an existing one is never rewritten.
+// A segment that cannot be stored is kept and retried until a write succeeds again;
+// beyond maxUnstored held entries the oldest segments are dropped so memory stays bounded.
+//   record(entry)  -> queues { timestamp, user, action, year, hash, ip, outcome, details }
+//   flush()        -> writes whatever is queued; call before the process exits
+//   query(filter)  -> { entries, truncated }, newest first
+//   status()       -> null while every segment is stored, else { since, error, entries, dropped }
+
+const DAY_MS = 24 * 3600 * 1000;
+const MAX_LISTED_DAYS = 92; // Longer ranges list the whole trail once instead of day by day
+const READ_CONCURRENCY = 8;
+
+const dayOf = (time) => new Date(time).toISOString().slice(0, 10);
+
+export const createAuditLog = ({ storage, flushDelayMs = 1000, retryDelayMs = 30000, maxBuffered = 200, maxUnstored = 50000 }) => {
+  let buffer = [];
+  let unstored = []; // Cut segments waiting for their write: { name, content, entries }
+  let failure = null;
+  let dropped = 0; // Entries given up on since the last successful write
+  let timer = null;
+  let pending = Promise.resolve();
+
+  const schedule = (delay) => {
+    if (timer) return;
+    timer = setTimeout(flush, delay);
+    timer.unref();
+  };
+
+  // The name is fixed when the segment is cut, so a retry cannot store it twice
+  const cutSegment = (entries) => {
+    const first = entries[0].timestamp;
+    const time = first.slice(11, 23).replace(/[:.]/g, '');
+    return {
+      name: `audit/${first.slice(0, 10)}/${time}-${randomBytes(4).toString('hex')}.jsonl`,
+      content: entries.map(e => JSON.stringify(e)).join('\n') + '\n',
+      entries
+    };
+  };
+
+  const writeSegment = async (segment) => {
+    try {
+      await storage.write(segment.name, segment.content, { ifGenerationMatch: 0 });
+    } catch (err) {
+      if (err.code === 412) return; // An earlier attempt got through after all
+      throw err;
+    }
+  };
+
+  // Segments leave the queue only once stored, so queries see them throughout
+  const drain = async () => {
+    while (unstored.length > 0) {
+      const segment = unstored[0];
+      try {
+        await writeSegment(segment);
+      } catch (err) {
+        failure = { since: failure?.since || new Date().toISOString(), error: err.message };
+        console.error(`Audit segment ${segment.name} not stored, retrying in ${retryDelayMs} ms:`, err);
+        schedule(retryDelayMs);
+        return;
+      }
+      unstored = unstored.filter(s => s !== segment);
+    }
+    failure = null;
+    dropped = 0;
+  };
+
+  const heldEntries = () => unstored.reduce((sum, segment) => sum + segment.entries.length, 0);
+
+  // Keeps the newest segments; the one just cut always stays
+  const dropOldest = () => {
+    let held = heldEntries();
+    while (held > maxUnstored && unstored.length > 1) {
+      const [oldest] = unstored.splice(0, 1);
+      held -= oldest.entries.length;
+      dropped += oldest.entries.length;
+      console.error(`Audit segment ${oldest.name} dropped unstored, ${oldest.entries.length} entries lost`);
+    }
+  };
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = null;
+    if (buffer.length > 0) {
+      unstored.push(cutSegment(buffer));
+      buffer = [];
+      dropOldest();
+    }
+    // Writes are chained so segments land in the order they were cut
+    pending = pending.then(drain);
+    return pending;
+  };
+
+  const record = (entry) => {
+    buffer.push(entry);
+    if (buffer.length >= maxBuffered) {
+      flush();
+    } else {
+      schedule(flushDelayMs);
+    }
+  };
+
+  const status = () => failure && { ...failure, entries: heldEntries(), dropped };
+
+  // Segment names for the days in range; a segment is named after its first entry,
+  // so one cut just before midnight can hold the next day
+  const listSegments = async (fromTime, toTime) => {
+    const firstDay = fromTime > 0 ? dayOf(fromTime - DAY_MS) : '';
+    const lastDay = Number.isFinite(toTime) ? dayOf(toTime - DAY_MS) : dayOf(Date.now());
+    if (!firstDay || Date.parse(lastDay) - Date.parse(firstDay) > MAX_LISTED_DAYS * DAY_MS) {
+      return (await storage.list('audit/')).filter(name => {
+        const day = name.slice(6, 16);
+        return day >= firstDay && day <= lastDay;
+      });
+    }
+    const days = [];
+    for (let time = Date.parse(firstDay); time <= Date.parse(lastDay); time += DAY_MS) days.push(dayOf(time));
+    return (await Promise.all(days.map(day => storage.list(`audit/${day}/`)))).flat();
+  };
+
+  // Every field is optional; dates are YYYY-MM-DD and inclusive
+  const query = async ({ from, to, user, action, year, outcome, limit }) => {
+    const fromTime = from ? Date.parse(`${from}T00:00:00.000Z`) : 0;
+    const toTime = to ? Date.parse(`${to}T00:00:00.000Z`) + DAY_MS : Infinity;
+    const names = await listSegments(fromTime, toTime);
+
+    const entries = [];
+    const parse = (name, content) => content.split('\n').forEach(line => {
+      if (!line) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (e) {
+        console.warn(`Skipping a corrupt line in ${name}`);
+      }
+    });
+    for (let i = 0; i < names.length; i += READ_CONCURRENCY) {
+      const batch = names.slice(i, i + READ_CONCURRENCY);
+      const objects = await Promise.all(batch.map(name => storage.read(name)));
+      objects.forEach((object, j) => object && parse(batch[j], object.content.toString()));
+    }
+    // Not yet written, but already part of the trail
+    const listed = new Set(names);
+    unstored.filter(segment => !listed.has(segment.name)).forEach(segment => entries.push(...segment.entries));
+    entries.push(...buffer);
+
+    const matches = entries.filter(e => {
+      const time = Date.parse(e.timestamp);
+      if (!(time >= fromTime && time < toTime)) return false;
+      if (user && e.user !== user) return false;
+      if (action && e.action !== action) return false;
+      if (year && String(e.year) !== String(year)) return false;
+      if (outcome && e.outcome !== outcome) return false;
+      return true;
+    });
+    matches.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    return { entries: matches.slice(0, limit), truncated: matches.length > limit };
+  };
+
+  return { record, flush, query, status };
+};
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createAuditLog } from './audit.js';
+
+// The storage interface of storage.js, in memory; `failWrites` makes writes throw
+const memoryStorage = () => {
+  const objects = new Map();
+  const storage = {
+    objects,
+    failWrites: false,
+    listed: [],
+    read: async (name) => objects.has(name) ? { content: Buffer.from(objects.get(name)), generation: 1 } : null,
+    write: async (name, content, { ifGenerationMatch } = {}) => {
+      if (storage.failWrites) throw new Error('storage unavailable');
+      if (ifGenerationMatch === 0 && objects.has(name)) throw Object.assign(new Error('exists'), { code: 412 });
+      objects.set(name, content);
+    },
+    list: async (prefix) => {
+      storage.listed.push(prefix);
+      return [...objects.keys()].filter(name => name.startsWith(prefix));
+    }
+  };
+  return storage;
+};
+
+const entry = (timestamp, extra = {}) => ({
+  timestamp,
+  user: 'admin',
+  action: 'login',
+  year: null,
+  hash: null,
+  ip: '127.0.0.1',
+  outcome: 'success',
+  ...extra
+});
+
+const setup = (options = {}) => {
+  const storage = memoryStorage();
+  return { storage, log: createAuditLog({ storage, retryDelayMs: 60000, ...options }) };
+};
+
+afterEach(() => vi.restoreAllMocks());
+
+describe('audit segments', () => {
+  it('are named after the day and time of their first entry', async () => {
+    const { storage, log } = setup();
+    log.record(entry('2025-03-04T09:08:07.006Z'));
+    log.record(entry('2025-03-04T09:10:00.000Z'));
+    await log.flush();
+
+    const names = [...storage.objects.keys()];
+    expect(names).toHaveLength(1);
+    expect(names[0]).toMatch(/^audit\/2025-03-04\/090807006-[0-9a-f]{8}\.jsonl$/);
+    expect(storage.objects.get(names[0]).trim().split('\n').map(line => JSON.parse(line).timestamp))
+      .toEqual(['2025-03-04T09:08:07.006Z', '2025-03-04T09:10:00.000Z']);
+  });
+
+  it('are cut once maxBuffered entries are queued', async () => {
+    const { storage, log } = setup({ maxBuffered: 2 });
+    log.record(entry('2025-03-04T09:00:00.000Z'));
+    log.record(entry('2025-03-04T09:00:01.000Z'));
+    log.record(entry('2025-03-04T09:00:02.000Z'));
+    await log.flush();
+    expect(storage.objects.size).toBe(2);
+  });
+
+  it('that cannot be stored are kept, reported and retried under the same name', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { storage, log } = setup();
+    storage.failWrites = true;
+    log.record(entry('2025-03-04T09:00:00.000Z'));
+    await log.flush();
+
+    expect(storage.objects.size).toBe(0);
+    expect(log.status()).toMatchObject({ error: 'storage unavailable', entries: 1, dropped: 0 });
+    expect((await log.query({})).entries).toHaveLength(1);
+
+    storage.failWrites = false;
+    await log.flush();
+    expect(log.status()).toBeNull();
+    expect(storage.objects.size).toBe(1);
+    expect((await log.query({})).entries).toHaveLength(1);
+  });
+
+  it('count as stored when an earlier attempt already wrote them', async () => {
+    const { storage, log } = setup();
+    const write = storage.write;
+    storage.write = async (...args) => {
+      await write(...args);
+      throw Object.assign(new Error('exists'), { code: 412 });
+    };
+    log.record(entry('2025-03-04T09:00:00.000Z'));
+    await log.flush();
+    expect(log.status()).toBeNull();
+    expect(storage.objects.size).toBe(1);
+  });
+
+  it('are dropped oldest first beyond maxUnstored held entries', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { storage, log } = setup({ maxUnstored: 2 });
+    storage.failWrites = true;
+    for (const second of ['00', '01', '02']) {
+      log.record(entry(`2025-03-04T09:00:${second}.000Z`));
+      await log.flush();
+    }
+
+    expect(log.status()).toMatchObject({ entries: 2, dropped: 1 });
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Audit segment audit\/2025-03-04\/090000000-.* dropped unstored, 1 entries lost$/));
+    expect((await log.query({})).entries.map(e => e.timestamp))
+      .toEqual(['2025-03-04T09:00:02.000Z', '2025-03-04T09:00:01.000Z']);
+  });
+});
+
+describe('audit queries', () => {
+  const seeded = async () => {
+    const { storage, log } = setup();
+    log.record(entry('2025-03-01T10:00:00.000Z', { user: 'ana' }));
+    await log.flush();
+    log.record(entry('2025-03-02T23:59:59.000Z', { action: 'upload', year: 2025 }));
+    log.record(entry('2025-03-03T00:00:01.000Z', { action: 'upload', year: 2025, outcome: 'failure' }));
+    await log.flush();
+    log.record(entry('2025-03-05T08:00:00.000Z', { user: 'ana', action: 'version', year: 2024 }));
+    await log.flush();
+    storage.listed = [];
+    return { storage, log };
+  };
+  const times = ({ entries }) => entries.map(e => e.timestamp);
+
+  it('list the day folders of the range, and the day before it', async () => {
+    const { storage, log } = await seeded();
+    await log.query({ from: '2025-03-03', to: '2025-03-04' });
+    expect(storage.listed).toEqual(['audit/2025-03-02/', 'audit/2025-03-03/', 'audit/2025-03-04/']);
+  });
+
+  it('list the whole trail once for open or long ranges', async () => {
+    const { storage, log } = await seeded();
+    await log.query({ to: '2025-03-04' });
+    await log.query({ from: '2024-01-01', to: '2025-03-04' });
+    expect(storage.listed).toEqual(['audit/', 'audit/']);
+  });
+
+  it('find entries of a segment cut the day before the range', async () => {
+    const { log } = await seeded();
+    expect(times(await log.query({ from: '2025-03-03', to: '2025-03-03' }))).toEqual(['2025-03-03T00:00:01.000Z']);
+  });
+
+  it('filter by user, action, year and outcome, newest first', async () => {
+    const { log } = await seeded();
+    expect(times(await log.query({ user: 'ana' }))).toEqual(['2025-03-05T08:00:00.000Z', '2025-03-01T10:00:00.000Z']);
+    expect(times(await log.query({ action: 'upload', year: '2025' })))
+      .toEqual(['2025-03-03T00:00:01.000Z', '2025-03-02T23:59:59.000Z']);
+    expect(times(await log.query({ outcome: 'failure' }))).toEqual(['2025-03-03T00:00:01.000Z']);
+  });
+
+  it('include entries not yet flushed', async () => {
+    const { log } = await seeded();
+    log.record(entry('2025-03-06T12:00:00.000Z'));
+    expect(times(await log.query({ from: '2025-03-06' }))).toEqual(['2025-03-06T12:00:00.000Z']);
+  });
+
+  it('stop at the limit and say so', async () => {
+    const { log } = await seeded();
+    const page = await log.query({ limit: 2 });
+    expect(times(page)).toEqual(['2025-03-05T08:00:00.000Z', '2025-03-03T00:00:01.000Z']);
+    expect(page.truncated).toBe(true);
+    expect((await log.query({ limit: 10 })).truncated).toBe(false);
+  });
+});
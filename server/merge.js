@@ -0,0 +1,46 @@
+// Appending a delta upload to a year's records. The delta covers a range of days and
+// stands in for everything the year held in that range:
+//   mergeDelta(existing, delta) -> { records, report: { from, to, added, replaced, removed } }
+// Records are renumbered in day order.
+
+// Local calendar day of a record, from the fields the client derived at parse time
+const recordDay = (r) => `${r.monthKey}-${String(r.day).padStart(2, '0')}`;
+
+// Reservation ID when present, otherwise the composite fields duplicate detection uses
+// (src/utils/duplicates.ts): station, check-out day, group, days and charge
+const recordIdentity = (r) => r.reservationId
+  ? `id:${String(r.reservationId).toLowerCase()}`
+  : `row:${r.stationKey}|${recordDay(r)}|${r.groupKey}|${r.days}|${Number(r.charge).toFixed(2)}`;
+
+// Replace the delta's date range in the existing records with the delta itself
+export const mergeDelta = (existing, delta) => {
+  const days = delta.map(recordDay).sort();
+  const from = days[0];
+  const to = days[days.length - 1];
+  const inRange = (r) => recordDay(r) >= from && recordDay(r) <= to;
+
+  // Identities repeat (two equal bookings on one day), so rows are matched one for one
+  const overlapped = existing.filter(inRange);
+  const remaining = new Map();
+  overlapped.forEach(r => {
+    const key = recordIdentity(r);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  });
+  let replaced = 0;
+  delta.forEach(r => {
+    const key = recordIdentity(r);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      replaced++;
+    }
+  });
+  const removed = overlapped.length - replaced;
+
+  const records = [...existing.filter(r => !inRange(r)), ...delta]
+    .map((r, i) => ({ r, i }))
+    .sort((a, b) => recordDay(a.r).localeCompare(recordDay(b.r)) || a.i - b.i)
+    .map(({ r }, index) => ({ ...r, id: index }));
+
+  return { records, report: { from, to, added: delta.length - replaced, replaced, removed } };
+};
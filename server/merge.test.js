@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { mergeDelta } from './merge.js';
+
+const record = (day, station, extra = {}) => ({
+  id: 0,
+  station,
+  stationKey: station.toLowerCase(),
+  group: 'A',
+  groupKey: 'a',
+  monthKey: '2024-03',
+  day,
+  days: 1,
+  charge: 10,
+  ...extra
+});
+
+describe('mergeDelta', () => {
+  it('replaces the days the delta covers and keeps the rest', () => {
+    const existing = [record(1, 'Athens'), record(5, 'Athens'), record(6, 'Patras'), record(9, 'Athens')];
+    const delta = [record(5, 'Athens'), record(7, 'Athens', { charge: 99 })];
+
+    const { records, report } = mergeDelta(existing, delta);
+
+    expect(records.map(r => [r.day, r.station, r.charge])).toEqual([
+      [1, 'Athens', 10],
+      [5, 'Athens', 10],
+      [7, 'Athens', 99],
+      [9, 'Athens', 10],
+    ]);
+    expect(report).toEqual({ from: '2024-03-05', to: '2024-03-07', added: 1, replaced: 1, removed: 1 });
+  });
+
+  it('counts a booking without reservation ID whose charge changed as removed and added', () => {
+    const { report } = mergeDelta([record(5, 'Athens')], [record(5, 'Athens', { charge: 12 })]);
+    expect(report).toMatchObject({ added: 1, replaced: 0, removed: 1 });
+  });
+
+  it('matches repeated bookings one for one', () => {
+    const existing = [record(5, 'Athens'), record(5, 'Athens'), record(5, 'Athens')];
+
+    const fewer = mergeDelta(existing, [record(5, 'Athens')]);
+    expect(fewer.records).toHaveLength(1);
+    expect(fewer.report).toMatchObject({ added: 0, replaced: 1, removed: 2 });
+
+    const more = mergeDelta([record(5, 'Athens')], [record(5, 'Athens'), record(5, 'Athens')]);
+    expect(more.records).toHaveLength(2);
+    expect(more.report).toMatchObject({ added: 1, replaced: 1, removed: 0 });
+  });
+
+  it('matches repeated reservation IDs one for one', () => {
+    const existing = [record(3, 'Athens', { reservationId: 'RA-1' })];
+    const delta = [record(3, 'Athens', { reservationId: 'RA-1' }), record(4, 'Athens', { reservationId: 'RA-1' })];
+    expect(mergeDelta(existing, delta).report).toMatchObject({ added: 1, replaced: 1, removed: 0 });
+  });
+
+  it('renumbers the merged records in day order', () => {
+    const { records } = mergeDelta([record(9, 'Athens', { id: 0 })], [record(2, 'Athens', { id: 0 })]);
+    expect(records.map(r => [r.day, r.id])).toEqual([[2, 0], [9, 1]]);
+  });
+
+  it('matches bookings by reservation ID, ignoring case', () => {
+    const existing = [record(3, 'Athens', { reservationId: 'RA-1' }), record(3, 'Athens', { reservationId: 'RA-2' })];
+    const delta = [record(3, 'Athens', { reservationId: 'ra-1', charge: 15 }), record(3, 'Athens', { reservationId: 'RA-3' })];
+
+    const { records, report } = mergeDelta(existing, delta);
+
+    expect(records.map(r => r.reservationId)).toEqual(['ra-1', 'RA-3']);
+    expect(report).toMatchObject({ added: 1, replaced: 1, removed: 1 });
+  });
+
+  it('compares days across months by calendar order', () => {
+    const existing = [record(28, 'Athens', { monthKey: '2024-02' }), record(2, 'Athens', { monthKey: '2024-04' })];
+    const delta = [record(31, 'Athens', { monthKey: '2024-03' })];
+
+    const { records, report } = mergeDelta(existing, delta);
+
+    expect(records.map(r => r.monthKey)).toEqual(['2024-02', '2024-03', '2024-04']);
+    expect(report).toMatchObject({ from: '2024-03-31', to: '2024-03-31', added: 1, replaced: 0, removed: 0 });
+  });
+});
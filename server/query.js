@@ -0,0 +1,163 @@
+import { normalizeAliasKey, resolveAlias } from './aliases.js';
+
+// Stats cubes and the aggregation query over them, with the dashboard's math
+// (src/hooks/useComparisonData.ts, src/utils/currency.ts): aliases and currency
+// conversion as the app applies them, check-out allocation, rate = revenue / days,
+// and variances against a baseline year aligned by month or period.
+//   buildStatsCube(records, year, hash)                      -> { year, hash, rows, cells }
+//   aggregateCube(cube, q, aliases, fx, currency, missing, isAllowed) -> buckets of one year
+//   buildQueryRows(q, bucketsByYear)                         -> { rows, totals }
+
+export const QUERY_DATE_RANGES = { 'All': null, '1-10': 1, '11-20': 11, '21-End': 21 };
+const PERIOD_LABELS = { 1: '1-10', 11: '11-20', 21: '21-End' };
+
+// Day-of-month periods the dashboard filters on, by first day
+const statsPeriod = (day) => day <= 10 ? 1 : day <= 20 ? 11 : 21;
+
+// Sum records into station × group × month × period cells. Charge type and currency
+// stay separate so the dashboard can still filter and convert without the raw rows.
+export const buildStatsCube = (records, year, hash) => {
+  const cells = new Map();
+  records.forEach(r => {
+    const period = statsPeriod(r.day);
+    const key = [r.stationKey, r.groupKey, r.monthKey, period, r.chargeType || '', r.currency || ''].join('|');
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = { station: r.station, group: r.group, month: r.monthKey, period, revenue: 0, days: 0, count: 0 };
+      if (r.chargeType) cell.chargeType = r.chargeType;
+      if (r.currency) cell.currency = r.currency;
+      cells.set(key, cell);
+    }
+    cell.revenue += r.charge;
+    cell.days += r.days;
+    cell.count += 1;
+  });
+  return { year: Number(year), hash, rows: records.length, cells: Array.from(cells.values()) };
+};
+
+// Same rules as the dashboard: no baseline or an undefined ratio gives null
+export const calcVariance = (p, c, pHasData, cHasData) => {
+  if (!cHasData) return null;
+  if (c === 0) return pHasData && p === 0 ? 0 : null;
+  if (!pHasData) return null;
+  return (p - c) / c;
+};
+
+// Rate for the month, or the latest earlier month while the new average is not published yet
+export const lookupFxRate = (fx, currency, month) => {
+  if (currency === fx.baseCurrency) return 1;
+  let found = null;
+  fx.rates
+    .filter(r => r.currency === currency && r.month <= month)
+    .forEach(r => { if (found === null || r.month > found.month) found = r; });
+  return found ? found.rate : null;
+};
+
+// Sum one year's cube into buckets; cells without a known FX rate are left out and reported,
+// cells outside the caller's stations are skipped
+export const aggregateCube = (cube, q, aliases, fx, currency, missing, isAllowed) => {
+  const stationKeys = q.stations.length > 0
+    ? new Set(q.stations.map(s => resolveAlias(s, aliases.stations).toLowerCase()))
+    : null;
+  const groupKeys = q.groups.length > 0
+    ? new Set(q.groups.map(g => resolveAlias(g, aliases.groups).toLowerCase()))
+    : null;
+  const period = QUERY_DATE_RANGES[q.dateRange];
+  const buckets = new Map();
+
+  cube.cells.forEach(cell => {
+    if (isAllowed && !isAllowed(cell.station)) return;
+    const station = resolveAlias(cell.station, aliases.stations);
+    const group = resolveAlias(cell.group, aliases.groups);
+    if (stationKeys && !stationKeys.has(station.toLowerCase())) return;
+    if (groupKeys && !groupKeys.has(group.toLowerCase())) return;
+    if (q.charges === 'regular' && cell.chargeType) return;
+    if (q.charges !== 'all' && q.charges !== 'regular' && cell.chargeType !== q.charges) return;
+    if (period !== null && cell.period !== period) return;
+
+    let revenue = cell.revenue;
+    const cellCurrency = cell.currency || fx.stationCurrencies[normalizeAliasKey(station)] || fx.baseCurrency;
+    if (cellCurrency !== currency) {
+      const from = lookupFxRate(fx, cellCurrency, cell.month);
+      const to = lookupFxRate(fx, currency, cell.month);
+      if (from === null || to === null) {
+        const unknown = from === null ? cellCurrency : currency;
+        const key = `${unknown}|${cell.month}`;
+        if (!missing.has(key)) missing.set(key, { currency: unknown, month: cell.month, count: 0 });
+        missing.get(key).count += cell.count;
+        return;
+      }
+      revenue = (revenue * from) / to;
+    }
+
+    const month = Number(cell.month.slice(5));
+    const key = q.granularity === 'year' ? '' : q.granularity === 'month' ? `${month}` : `${month}|${cell.period}`;
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { month, period: cell.period, revenue: 0, days: 0, count: 0 };
+      buckets.set(key, bucket);
+    }
+    bucket.revenue += revenue;
+    bucket.days += cell.days;
+    bucket.count += cell.count;
+  });
+
+  return buckets;
+};
+
+// Every month (and period) of every year, so years line up even where one has no data
+const bucketSlots = (granularity) => {
+  if (granularity === 'year') return [{ key: '' }];
+  const slots = [];
+  for (let month = 1; month <= 12; month++) {
+    if (granularity === 'month') slots.push({ key: `${month}`, month });
+    else [1, 11, 21].forEach(period => slots.push({ key: `${month}|${period}`, month, period }));
+  }
+  return slots;
+};
+
+const toMetricSet = (bucket) => {
+  const m = { revenue: bucket?.revenue ?? 0, days: bucket?.days ?? 0, count: bucket?.count ?? 0, rate: 0, hasData: !!bucket };
+  if (m.days > 0) m.rate = m.revenue / m.days;
+  return m;
+};
+
+export const buildQueryRows = (q, bucketsByYear) => {
+  const row = (year, slot, m, base) => {
+    const out = { year: Number(year) };
+    if (slot.month !== undefined) out.month = slot.month;
+    if (slot.period !== undefined) out.period = PERIOD_LABELS[slot.period];
+    q.metrics.forEach(metric => { out[metric] = m[metric]; });
+    out.hasData = m.hasData;
+    if (base) {
+      out.variance = Object.fromEntries(q.metrics.map(metric => [metric, calcVariance(m[metric], base[metric], m.hasData, base.hasData)]));
+    }
+    return out;
+  };
+
+  const slots = bucketSlots(q.granularity);
+  const rows = [];
+  q.years.forEach(year => {
+    slots.forEach(slot => {
+      const base = q.baseline !== null && year !== q.baseline ? toMetricSet(bucketsByYear[q.baseline].get(slot.key)) : null;
+      rows.push(row(year, slot, toMetricSet(bucketsByYear[year].get(slot.key)), base));
+    });
+  });
+
+  // Grand totals over the months with data, like the dashboard's totals row
+  const totalOf = (year) => {
+    const acc = { revenue: 0, days: 0, count: 0 };
+    let hasData = false;
+    bucketsByYear[year].forEach(b => {
+      acc.revenue += b.revenue;
+      acc.days += b.days;
+      acc.count += b.count;
+      hasData = true;
+    });
+    return toMetricSet(hasData ? acc : undefined);
+  };
+  const baseTotal = q.baseline !== null ? totalOf(q.baseline) : null;
+  const totals = q.years.map(year => row(year, {}, totalOf(year), year !== q.baseline ? baseTotal : null));
+
+  return { rows, totals };
+};
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateCube, buildQueryRows, buildStatsCube } from './query.js';
+import { aggregateYear, calcVariance, sumMetrics } from '../src/hooks/useComparisonData.ts';
+import { applyAliases } from '../src/utils/aliases.ts';
+import { buildProcessedData } from '../src/utils/datasetUtils.ts';
+import { convertDataset } from '../src/utils/currency.ts';
+
+// The query endpoint answers from stats cubes; the dashboard from the records themselves.
+// Both are fed the same records here and have to agree to the cent.
+
+const aliases = { stations: { 'athens airport': 'Athens' }, groups: { 'a1': 'A' } };
+const fx = {
+  baseCurrency: 'EUR',
+  rates: [
+    { month: '2023-01', currency: 'GBP', rate: 1.15 },
+    { month: '2024-02', currency: 'GBP', rate: 1.18 },
+    { month: '2024-01', currency: 'USD', rate: 0.92 },
+  ],
+  stationCurrencies: { patras: 'GBP' },
+};
+
+const STATIONS = ['Athens', 'Athens Airport', 'Patras', 'Heraklion'];
+const GROUPS = ['A', 'A1', 'B'];
+
+// A spread of bookings over stations, groups, months, periods, charge types and currencies
+const yearRecords = (year, seed) => {
+  const records = [];
+  for (let i = 0; i < 240; i++) {
+    const n = (i * 7919 + seed * 104729) % 9973;
+    const month = (n % 11) + 1; // December is left empty
+    const day = (n % 28) + 1;
+    const station = STATIONS[n % STATIONS.length];
+    const group = GROUPS[(n >> 2) % GROUPS.length];
+    const date = new Date(year, month - 1, day);
+    const record = {
+      id: i,
+      station,
+      stationKey: station.toLowerCase(),
+      group,
+      groupKey: group.toLowerCase(),
+      date,
+      monthKey: `${year}-${String(month).padStart(2, '0')}`,
+      displayDate: '',
+      day,
+      days: (n % 9) + 1,
+      charge: n % 13 === 0 ? 0 : Math.round(((n % 400) + 25) * 100) / 100 + 0.37,
+      year,
+    };
+    if (record.charge === 0) record.chargeType = 'zero';
+    else if (n % 17 === 0) record.chargeType = 'complimentary';
+    if (n % 5 === 0) record.currency = 'USD'; // No USD rate before 2024-01
+    records.push(record);
+  }
+  return records;
+};
+
+const RECORDS = { 2024: yearRecords(2024, 1), 2023: yearRecords(2023, 2) };
+
+// The dashboard: aliases on load, conversion to the reporting currency, then the hook's math
+const dashboard = (filter) => {
+  const byYear = Object.fromEntries(Object.entries(RECORDS).map(([year, records]) => {
+    const data = convertDataset(buildProcessedData(applyAliases(records, aliases), Number(year)), fx, 'EUR').data;
+    return [year, aggregateYear(data, { allocation: 'checkout', ...filter })];
+  }));
+  return { primary: byYear[2024], comparison: byYear[2023] };
+};
+
+// The query endpoint over the cubes of the same records
+const query = (q) => {
+  const full = { years: ['2024', '2023'], baseline: '2023', stations: [], groups: [], dateRange: 'All', charges: 'all', granularity: 'month', metrics: ['revenue', 'days', 'count', 'rate'], ...q };
+  const bucketsByYear = Object.fromEntries(Object.entries(RECORDS).map(([year, records]) => (
+    [year, aggregateCube(buildStatsCube(records, year, 'hash'), full, aliases, fx, 'EUR', new Map())]
+  )));
+  return buildQueryRows(full, bucketsByYear);
+};
+
+const expectMetrics = (actual, expected) => {
+  expect(actual.hasData).toBe(expected.hasData);
+  expect(actual.count).toBe(expected.count);
+  expect(actual.days).toBe(expected.days);
+  expect(actual.revenue).toBeCloseTo(expected.revenue, 6);
+  expect(actual.rate).toBeCloseTo(expected.rate, 6);
+};
+
+const expectVariance = (actual, p, c) => {
+  ['revenue', 'days', 'rate'].forEach(metric => {
+    const expected = calcVariance(p[metric], c[metric], p.hasData, c.hasData);
+    if (expected === null) {
+      expect(actual[metric]).toBeNull();
+    } else {
+      expect(actual[metric]).toBeTypeOf('number');
+      expect(actual[metric]).toBeCloseTo(expected, 9);
+    }
+  });
+};
+
+describe('query and dashboard math', () => {
+  it.each([
+    ['everything', {}, {}],
+    ['one station, through its alias', { selectedStation: 'Athens' }, { stations: ['Athens'] }],
+    ['one group, through its alias', { selectedGroups: ['A'] }, { groups: ['A'] }],
+    ['a station in a foreign currency', { selectedStation: 'Patras' }, { stations: ['Patras'] }],
+    ['one period of the month', { selectedDateRange: '11-20' }, { dateRange: '11-20' }],
+    ['regular charges', { chargeFilter: 'regular' }, { charges: 'regular' }],
+    ['one charge type', { chargeFilter: 'complimentary' }, { charges: 'complimentary' }],
+    ['zero charges, 0 against 0', { chargeFilter: 'zero' }, { charges: 'zero' }],
+  ])('agree on %s', (_, filter, q) => {
+    const { primary, comparison } = dashboard({ selectedStation: 'All', selectedGroups: ['All'], selectedDateRange: 'All', chargeFilter: 'all', ...filter });
+    const { rows, totals } = query(q);
+
+    const current = rows.filter(r => r.year === 2024);
+    expect(current).toHaveLength(12);
+    current.forEach(row => {
+      expectMetrics(row, primary[row.month - 1]);
+      expectVariance(row.variance, primary[row.month - 1], comparison[row.month - 1]);
+    });
+    rows.filter(r => r.year === 2023).forEach(row => expectMetrics(row, comparison[row.month - 1]));
+
+    expectMetrics(totals[0], sumMetrics(primary));
+    expectMetrics(totals[1], sumMetrics(comparison));
+    expectVariance(totals[0].variance, sumMetrics(primary), sumMetrics(comparison));
+  });
+
+  it('leave out the same rows for unknown FX rates', () => {
+    const missing = new Map();
+    aggregateCube(buildStatsCube(RECORDS[2023], '2023', 'hash'), { stations: [], groups: [], dateRange: 'All', charges: 'all', granularity: 'year' }, aliases, fx, 'EUR', missing);
+    const dataset = buildProcessedData(applyAliases(RECORDS[2023], aliases), 2023);
+    const expected = convertDataset(dataset, fx, 'EUR').missing;
+    expect(expected.length).toBeGreaterThan(0);
+    expect(Array.from(missing.values()).sort((a, b) => a.month.localeCompare(b.month))).toEqual(expected);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, uploadRecord, publish, ADMIN_PASSWORD, QUERY_KEY } from './testServer.js';
+
+let server;
+let bi;
+
+beforeAll(async () => {
+  server = await startServer();
+  bi = server.withKey(QUERY_KEY);
+  const admin = await server.signIn('admin', ADMIN_PASSWORD);
+  for (const year of ['2023', '2024']) await admin('/api/years', { method: 'POST', body: { year } });
+  await publish(server, 2024, JSON.stringify([
+    uploadRecord(0, 'Athens', '2024-03', 2),
+    uploadRecord(1, 'Patras', '2024-03', 15, { charge: 60, days: 3 }),
+    uploadRecord(2, 'Athens', '2024-04', 25, { group: 'B', groupKey: 'b' }),
+  ]));
+  await publish(server, 2023, JSON.stringify([
+    uploadRecord(0, 'Athens', '2023-03', 4, { charge: 80 }),
+  ]));
+}, 30000);
+
+afterAll(() => server?.stop());
+
+describe('GET /api/query', () => {
+  it('answers totals, rows and variances against the second year', async () => {
+    const res = await bi('/api/query?years=2024,2023');
+    expect(res.status).toBe(200);
+    const body = await res.json();
+
+    expect(body.query).toMatchObject({ years: [2024, 2023], baseline: 2023, granularity: 'month', dateRange: 'All' });
+    expect(body.currency).toBe('EUR');
+    expect(body.totals[0]).toMatchObject({ year: 2024, revenue: 260, days: 7, count: 3, hasData: true });
+    const march = body.rows.find(r => r.year === 2024 && r.month === 3);
+    expect(march).toMatchObject({ revenue: 160, days: 5, count: 2, rate: 32 });
+    expect(march.variance.revenue).toBeCloseTo(1);
+    expect(body.rows.find(r => r.year === 2024 && r.month === 4).variance.revenue).toBeNull();
+  });
+
+  it('filters by station, group, period and metric', async () => {
+    const { totals } = await (await bi('/api/query?years=2024&granularity=year&stations=Athens&groups=A&dateRange=1-10&metrics=revenue,count')).json();
+    expect(totals).toEqual([{ year: 2024, revenue: 100, count: 1, hasData: true }]);
+  });
+
+  it('exports CSV with a column per metric and variance', async () => {
+    const res = await bi('/api/query?years=2024,2023&granularity=period&metrics=revenue&format=csv');
+    expect(res.headers.get('content-type')).toMatch(/^text\/csv/);
+    const lines = (await res.text()).trim().split('\n');
+    expect(lines[0]).toBe('year,month,period,revenue,revenue_variance');
+    expect(lines).toContain('2024,3,1-10,100,0.25');
+    expect(lines).toHaveLength(1 + 2 * 36);
+  });
+
+  it('rejects invalid and inherited parameter values', async () => {
+    for (const params of [
+      'years=2024&dateRange=toString',
+      'years=2024&dateRange=__proto__',
+      'years=2024&dateRange=All&dateRange=1-10',
+      'years=2024&granularity=month&granularity=year',
+      'years=2024&format=json&format=csv',
+      'years=2024&dateRange[All]=1',
+      'years=2024&baseline=2023',
+      'years=2024&metrics=profit',
+      'years=1900',
+    ]) {
+      const res = await bi(`/api/query?${params}`);
+      expect(res.status, params).toBe(400);
+    }
+  });
+
+  it('answers 404 for a year without a dataset and 401 without credentials', async () => {
+    expect((await bi('/api/query?years=2025')).status).toBe(404);
+    expect((await fetch(`${server.baseUrl}/api/query?years=2024`)).status).toBe(401);
+  });
+});
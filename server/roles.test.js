@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, ADMIN_PASSWORD, INGEST_KEY, QUERY_KEY } from './testServer.js';
+
+const INIT = { year: '2024', type: 'records', hash: 'a'.repeat(64), mode: 'replace' };
+
+let server;
+let bootstrap;
+
+beforeAll(async () => {
+  server = await startServer();
+  bootstrap = await server.signIn('admin', ADMIN_PASSWORD);
+  await bootstrap('/api/years', { method: 'POST', body: { year: '2024' } });
+  for (const [username, role] of [['vera', 'viewer'], ['ugo', 'uploader']]) {
+    await bootstrap('/api/users', { method: 'POST', body: { username, password: 'password1', role } });
+  }
+}, 30000);
+
+afterAll(() => server?.stop());
+
+describe('roles', () => {
+  it('let viewers read but not upload or administer', async () => {
+    const vera = await server.signIn('vera', 'password1');
+    expect((await vera('/api/config')).status).toBe(200);
+    expect((await vera('/api/upload/init', { method: 'POST', body: INIT })).status).toBe(403);
+    expect((await vera('/api/aliases', { method: 'PUT', body: { stations: {}, groups: {} } })).status).toBe(403);
+    expect((await vera('/api/users')).status).toBe(403);
+  });
+
+  it('let uploaders upload but not administer', async () => {
+    const ugo = await server.signIn('ugo', 'password1');
+    expect((await ugo('/api/upload/init', { method: 'POST', body: INIT })).status).toBe(200);
+    expect((await ugo('/api/years', { method: 'POST', body: { year: '2023' } })).status).toBe(403);
+    expect((await ugo('/api/years/2024/versions/1/activate', { method: 'POST' })).status).toBe(403);
+    expect((await ugo('/api/audit')).status).toBe(403);
+  });
+
+  it('give the API keys the uploader and viewer roles', async () => {
+    expect((await server.withKey(INGEST_KEY)('/api/upload/init', { method: 'POST', body: INIT })).status).toBe(200);
+    expect((await server.withKey(INGEST_KEY)('/api/users')).status).toBe(403);
+    expect((await server.withKey(QUERY_KEY)('/api/upload/init', { method: 'POST', body: INIT })).status).toBe(403);
+    expect((await server.withKey('wrong-key')('/api/config')).status).toBe(401);
+  });
+
+  it('apply role changes to sessions already signed in', async () => {
+    const vera = await server.signIn('vera', 'password1');
+    await bootstrap('/api/users/vera', { method: 'PUT', body: { role: 'uploader' } });
+    expect((await vera('/api/upload/init', { method: 'POST', body: INIT })).status).toBe(200);
+    await bootstrap('/api/users/vera', { method: 'PUT', body: { role: 'viewer' } });
+    expect((await vera('/api/upload/init', { method: 'POST', body: INIT })).status).toBe(403);
+  });
+
+  it('validate new accounts', async () => {
+    const create = (body) => bootstrap('/api/users', { method: 'POST', body: { password: 'password1', role: 'viewer', ...body } });
+    expect((await create({ username: 'x' })).status).toBe(400);
+    expect((await create({ username: 'zoe', role: 'owner' })).status).toBe(400);
+    expect((await create({ username: 'zoe', password: 'short' })).status).toBe(400);
+    expect((await create({ username: 'vera' })).status).toBe(409);
+    expect((await create({ username: 'admin' })).status).toBe(409);
+  });
+
+  it('retire the bootstrap admin once an admin account exists, and keep the last admin', async () => {
+    await bootstrap('/api/users', { method: 'POST', body: { username: 'root', password: 'password1', role: 'admin' } });
+    expect((await bootstrap('/api/users')).status).toBe(401);
+
+    const root = await server.signIn('root', 'password1');
+    expect((await root('/api/users/root', { method: 'PUT', body: { role: 'viewer' } })).status).toBe(400);
+    expect((await root('/api/users/root', { method: 'DELETE' })).status).toBe(400);
+    const { users } = await (await root('/api/users')).json();
+    expect(users.map(u => [u.username, u.role])).toEqual([['vera', 'viewer'], ['ugo', 'uploader'], ['root', 'admin']]);
+  });
+});
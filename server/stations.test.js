@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, uploadRecord, publish, ADMIN_PASSWORD } from './testServer.js';
+
+let server;
+let admin;
+let viewer;
+
+const recordStations = async (client) => {
+  const { url } = await (await client('/api/years/2024/records')).json();
+  return (await (await client(url)).json()).map(r => r.station);
+};
+
+beforeAll(async () => {
+  server = await startServer();
+  admin = await server.signIn('admin', ADMIN_PASSWORD);
+  await admin('/api/years', { method: 'POST', body: { year: '2024' } });
+  await publish(server, 2024, JSON.stringify([
+    uploadRecord(0, 'Athens', '2024-03', 2),
+    uploadRecord(1, 'Athens Airport', '2024-03', 3),
+    uploadRecord(2, 'Patras', '2024-03', 4),
+  ]));
+  await admin('/api/aliases', { method: 'PUT', body: { stations: { 'Athens Airport': 'Athens' }, groups: {} } });
+  await admin('/api/users', { method: 'POST', body: { username: 'ana', password: 'password1', role: 'viewer', stations: ['athens'] } });
+  viewer = await server.signIn('ana', 'password1');
+}, 30000);
+
+afterAll(() => server?.stop());
+
+describe('station-limited viewers', () => {
+  it('receive only records of their stations, through aliases', async () => {
+    const { url } = await (await viewer('/api/years/2024/records')).json();
+    expect(url).toBe('/api/years/2024/records/scoped');
+    const records = await (await viewer(url)).json();
+    expect(records.map(r => r.station)).toEqual(['Athens', 'Athens Airport']);
+  });
+
+  it('receive stats of their stations only', async () => {
+    const { url } = await (await viewer('/api/years/2024/stats')).json();
+    expect(url).toBe('/api/years/2024/stats/scoped');
+    const cube = await (await viewer(url)).json();
+    expect(cube.cells.map(c => c.station).sort()).toEqual(['Athens', 'Athens Airport']);
+  });
+
+  it('query their stations only', async () => {
+    const { totals } = await (await viewer('/api/query?years=2024&granularity=year')).json();
+    expect(totals[0]).toMatchObject({ revenue: 200, count: 2 });
+  });
+
+  it('see versions without whole-year row counts', async () => {
+    const { versions } = await (await viewer('/api/years/2024/versions')).json();
+    expect(versions.length).toBeGreaterThan(0);
+    versions.forEach(v => expect(v.rows).toBeNull());
+  });
+});
+
+describe('station access', () => {
+  const createViewer = async (username, access) => {
+    const res = await admin('/api/users', { method: 'POST', body: { username, password: 'password1', role: 'viewer', ...access } });
+    expect(res.status).toBe(200);
+    return server.signIn(username, 'password1');
+  };
+  const accessOf = async (username) => {
+    const { users } = await (await admin('/api/users')).json();
+    const { allStations, stations } = users.find(u => u.username === username);
+    return { allStations, stations };
+  };
+
+  it('covers every station for viewers created without a list', async () => {
+    const all = await createViewer('bea', {});
+    expect(await accessOf('bea')).toEqual({ allStations: true, stations: [] });
+    expect(await recordStations(all)).toEqual(['Athens', 'Athens Airport', 'Patras']);
+  });
+
+  it('fails closed for limited viewers with an empty list', async () => {
+    const none = await createViewer('cy', { allStations: false, stations: [] });
+    expect(await accessOf('cy')).toEqual({ allStations: false, stations: [] });
+    expect(await recordStations(none)).toEqual([]);
+    const { totals } = await (await none('/api/query?years=2024&granularity=year')).json();
+    expect(totals[0]).toMatchObject({ revenue: 0, count: 0, hasData: false });
+  });
+
+  it('changes with the flag and the list', async () => {
+    const dee = await createViewer('dee', { allStations: true, stations: ['patras'] });
+    expect(await recordStations(dee)).toHaveLength(3);
+
+    await admin('/api/users/dee', { method: 'PUT', body: { stations: ['Patras'] } });
+    expect(await accessOf('dee')).toEqual({ allStations: false, stations: ['Patras'] });
+    expect(await recordStations(dee)).toEqual(['Patras']);
+
+    await admin('/api/users/dee', { method: 'PUT', body: { stations: [] } });
+    expect(await recordStations(dee)).toEqual([]);
+
+    await admin('/api/users/dee', { method: 'PUT', body: { allStations: true } });
+    expect(await accessOf('dee')).toEqual({ allStations: true, stations: [] });
+    expect(await recordStations(dee)).toHaveLength(3);
+  });
+
+  it('rejects a flag that is not a boolean', async () => {
+    const res = await admin('/api/users', { method: 'POST', body: { username: 'eve', password: 'password1', role: 'viewer', allStations: 'yes' } });
+    expect(res.status).toBe(400);
+  });
+});
+
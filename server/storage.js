@@ -0,0 +1,229 @@
+import express from 'express';
+import path from 'path';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, readFile, writeFile, rename, readdir, rm, stat } from 'fs/promises';
+import { pipeline } from 'stream/promises';
+import { Storage } from '@google-cloud/storage';
+
+// Object storage used by the server. Both drivers expose the same methods:
+//   read(name)                                 -> { content: Buffer, generation } | null
+//   write(name, content, { ifGenerationMatch }) -> throws { code: 412 } when the generation moved on
+//   remove(name)                               -> deletes the object; missing objects are ignored
+//   list(prefix)                               -> object names
+//   signedUrl(name, action, expiresInMs)       -> URL the browser can GET ('read') or PUT ('write')
+// The local driver also provides `router`, which serves its signed URLs.
+
+const GCS_READ_ATTEMPTS = 3; // Generation lookups per read while concurrent writes keep replacing the object
+
+const preconditionFailed = (name) => Object.assign(new Error(`Generation mismatch for ${name}`), { code: 412 });
+
+const createGcsStorage = ({ bucketName }) => {
+  const bucket = new Storage().bucket(bucketName);
+
+  return {
+    // download() returns no metadata, so look up the generation first and read exactly that one.
+    // A write landing in between replaces that generation; the lookup is then repeated.
+    read: async (name) => {
+      for (let attempt = 1; ; attempt++) {
+        let metadata;
+        try {
+          [metadata] = await bucket.file(name).getMetadata();
+        } catch (e) {
+          if (e.code === 404) return null;
+          throw e;
+        }
+        try {
+          const [content] = await bucket.file(name, { generation: metadata.generation }).download();
+          return { content, generation: metadata.generation };
+        } catch (e) {
+          if (e.code !== 404 || attempt >= GCS_READ_ATTEMPTS) throw e;
+        }
+      }
+    },
+
+    write: async (name, content, { ifGenerationMatch } = {}) => {
+      const options = { contentType: 'application/json' };
+      if (ifGenerationMatch !== undefined) options.ifGenerationMatch = ifGenerationMatch;
+      await bucket.file(name).save(content, options);
+    },
+
+    remove: async (name) => {
+      await bucket.file(name).delete({ ignoreNotFound: true });
+    },
+
+    list: async (prefix) => {
+      const [files] = await bucket.getFiles({ prefix });
+      return files.map(f => f.name);
+    },
+
+    signedUrl: async (name, action, expiresInMs) => {
+      const [url] = await bucket.file(name).getSignedUrl({
+        version: 'v4',
+        action,
+        expires: Date.now() + expiresInMs,
+        ...(action === 'write' ? { contentType: 'application/json' } : {}),
+      });
+      return url;
+    },
+
+    router: null,
+  };
+};
+
+// Stores objects as files under `root`. Each object's generation lives in a
+// `.generation` sidecar; writes are serialised per object within this process,
+// so run a single server instance against one directory.
+const createLocalStorage = ({ root, signingSecret }) => {
+  const GENERATION_SUFFIX = '.generation';
+  const locks = new Map();
+
+  const filePath = (name) => {
+    const resolved = path.resolve(root, name);
+    if (!resolved.startsWith(path.resolve(root) + path.sep) || name.endsWith(GENERATION_SUFFIX)) {
+      throw new Error(`Invalid object name: ${name}`);
+    }
+    return resolved;
+  };
+
+  const readGeneration = async (file) => {
+    try {
+      return Number(await readFile(file + GENERATION_SUFFIX, 'utf8')) || 0;
+    } catch (e) {
+      if (e.code === 'ENOENT') return 0;
+      throw e;
+    }
+  };
+
+  // Run `task` once earlier tasks on the same object have settled
+  const withLock = (name, task) => {
+    const previous = locks.get(name) || Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    locks.set(name, next);
+    next.catch(() => {}).finally(() => { if (locks.get(name) === next) locks.delete(name); });
+    return next;
+  };
+
+  // Move a fully written temp file into place and bump the generation
+  const commit = (name, tempFile, ifGenerationMatch) => withLock(name, async () => {
+    const file = filePath(name);
+    const generation = await readGeneration(file);
+    if (ifGenerationMatch !== undefined && Number(ifGenerationMatch) !== generation) {
+      await rm(tempFile, { force: true });
+      throw preconditionFailed(name);
+    }
+    await rename(tempFile, file);
+    await writeFile(file + GENERATION_SUFFIX, String(generation + 1));
+  });
+
+  const tempFileFor = async (name) => {
+    const file = filePath(name);
+    await mkdir(path.dirname(file), { recursive: true });
+    return `${file}.${process.pid}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+  };
+
+  const sign = (name, action, expires) =>
+    createHmac('sha256', signingSecret).update(`${action}\n${name}\n${expires}`).digest('hex');
+
+  const isValidSignature = (name, action, expires, signature) => {
+    if (typeof name !== 'string' || !/^[a-f0-9]{64}$/.test(signature) || !(Number(expires) > Date.now())) return false;
+    return timingSafeEqual(Buffer.from(signature, 'hex'), Buffer.from(sign(name, action, expires), 'hex'));
+  };
+
+  const list = async (prefix) => {
+    const names = [];
+    const walk = async (dir) => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch (e) {
+        if (e.code === 'ENOENT') return;
+        throw e;
+      }
+      for (const entry of entries) {
+        const full = path.join(dir, entry.name);
+        if (entry.isDirectory()) await walk(full);
+        else if (!entry.name.endsWith(GENERATION_SUFFIX) && !entry.name.endsWith('.tmp')) {
+          names.push(path.relative(root, full).split(path.sep).join('/'));
+        }
+      }
+    };
+    // Only walk the directory part of the prefix, then filter like GCS does
+    await walk(path.join(root, prefix.slice(0, prefix.lastIndexOf('/') + 1)));
+    return names.filter(n => n.startsWith(prefix)).sort();
+  };
+
+  // Stand-in for the bucket's signed URLs; mounted before the JSON body parser and CSRF check
+  const router = express.Router();
+  router.get('/api/storage', async (req, res) => {
+    const { name, expires, signature } = req.query;
+    if (!isValidSignature(name, 'read', expires, signature)) return res.status(403).json({ error: 'Invalid or expired signature' });
+    try {
+      const file = filePath(name);
+      await stat(file);
+      res.type('application/json');
+      await pipeline(createReadStream(file), res);
+    } catch (e) {
+      if (e.code === 'ENOENT') return res.status(404).json({ error: 'Object not found' });
+      console.error(e);
+      if (!res.headersSent) res.status(500).json({ error: 'Read failed' });
+    }
+  });
+  router.put('/api/storage', async (req, res) => {
+    const { name, expires, signature } = req.query;
+    if (!isValidSignature(name, 'write', expires, signature)) return res.status(403).json({ error: 'Invalid or expired signature' });
+    try {
+      const tempFile = await tempFileFor(name);
+      await pipeline(req, createWriteStream(tempFile));
+      await commit(name, tempFile);
+      res.status(200).end();
+    } catch (e) {
+      console.error(e);
+      res.status(500).json({ error: 'Write failed' });
+    }
+  });
+
+  return {
+    // Under the lock, so content and generation always belong together
+    read: (name) => withLock(name, async () => {
+      const file = filePath(name);
+      try {
+        const content = await readFile(file);
+        return { content, generation: await readGeneration(file) };
+      } catch (e) {
+        if (e.code === 'ENOENT') return null;
+        throw e;
+      }
+    }),
+
+    write: async (name, content, { ifGenerationMatch } = {}) => {
+      const tempFile = await tempFileFor(name);
+      await writeFile(tempFile, content);
+      await commit(name, tempFile, ifGenerationMatch);
+    },
+
+    remove: (name) => withLock(name, async () => {
+      const file = filePath(name);
+      await rm(file, { force: true });
+      await rm(file + GENERATION_SUFFIX, { force: true });
+    }),
+
+    list,
+
+    // Relative, so it works behind any host or proxy; non-browser clients resolve it against the server URL
+    signedUrl: async (name, action, expiresInMs) => {
+      filePath(name);
+      const expires = Date.now() + expiresInMs;
+      const query = new URLSearchParams({ name, expires: String(expires), signature: sign(name, action, expires) });
+      return `/api/storage?${query}`;
+    },
+
+    router,
+  };
+};
+
+export const createStorage = ({ driver, bucketName, localDir, signingSecret }) => {
+  if (driver === 'gcs') return createGcsStorage({ bucketName });
+  if (driver === 'local') return createLocalStorage({ root: path.resolve(localDir), signingSecret });
+  throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "gcs" or "local")`);
+};
@@ -0,0 +1,137 @@
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { createServer } from 'net';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+// Runs server.js against the local storage driver in a scratch directory, for the API tests:
+//   const server = await startServer();  ...  await server.stop();
+// `signIn` returns a cookie-based client like the browser's; `withKey` sends a bearer key.
+
+const ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+export const INGEST_KEY = 'test-ingest-key';
+export const QUERY_KEY = 'test-query-key';
+export const ADMIN_PASSWORD = 'test-bootstrap';
+
+const freePort = () => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.once('error', reject);
+  probe.listen(0, () => {
+    const { port } = probe.address();
+    probe.close(() => resolve(port));
+  });
+});
+
+export const startServer = async () => {
+  const storageDir = await mkdtemp(path.join(tmpdir(), 'rate-server-'));
+  const port = await freePort();
+  const baseUrl = `http://127.0.0.1:${port}`;
+  const child = spawn(process.execPath, ['server.js'], {
+    cwd: ROOT,
+    env: {
+      ...process.env,
+      PORT: String(port),
+      STORAGE_DRIVER: 'local',
+      LOCAL_STORAGE_DIR: storageDir,
+      INGEST_API_KEY: INGEST_KEY,
+      QUERY_API_KEY: QUERY_KEY,
+      ADMIN_PASSWORD,
+      JWT_SECRET: 'test-secret'
+    },
+    stdio: 'ignore'
+  });
+  const exited = new Promise(resolve => child.once('exit', resolve));
+
+  // The server flushes its audit log on SIGTERM, so the directory goes once it has exited
+  const stop = async () => {
+    child.kill();
+    await exited;
+    await rm(storageDir, { recursive: true, force: true });
+  };
+
+  let ready = false;
+  for (let i = 0; i < 100 && !ready; i++) {
+    try {
+      ready = (await fetch(`${baseUrl}/api/health`)).ok;
+    } catch {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  if (!ready) {
+    await stop();
+    throw new Error('Server did not start');
+  }
+
+  // Keeps the session cookie and sends the CSRF token back
+  const session = () => {
+    const cookies = {};
+    return async (url, { method = 'GET', body } = {}) => {
+      const headers = { 'Content-Type': 'application/json' };
+      if (Object.keys(cookies).length > 0) headers.Cookie = Object.entries(cookies).map(([k, v]) => `${k}=${v}`).join('; ');
+      if (cookies['XSRF-TOKEN']) headers['X-XSRF-TOKEN'] = cookies['XSRF-TOKEN'];
+      const res = await fetch(`${baseUrl}${url}`, { method, headers, body: body && JSON.stringify(body) });
+      res.headers.getSetCookie().forEach(cookie => {
+        const [pair] = cookie.split(';');
+        const split = pair.indexOf('=');
+        cookies[pair.slice(0, split)] = pair.slice(split + 1);
+      });
+      return res;
+    };
+  };
+
+  const signIn = async (username, password) => {
+    const request = session();
+    await request('/api/health');
+    const res = await request('/api/auth/login', { method: 'POST', body: { username, password } });
+    if (!res.ok) throw new Error(`Sign-in as ${username} failed with ${res.status}`);
+    return request;
+  };
+
+  const withKey = (key) => (url, { method = 'GET', body } = {}) => fetch(`${baseUrl}${url}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${key}` },
+    body: body && JSON.stringify(body)
+  });
+
+  // Object names under a storage prefix, without the local driver's generation sidecars
+  const storedFiles = async (prefix) => {
+    try {
+      return (await readdir(path.join(storageDir, prefix))).filter(name => !name.endsWith('.generation'));
+    } catch (e) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+  };
+
+  return { baseUrl, storageDir, stop, session, signIn, withKey, storedFiles };
+};
+
+// A record as the browser uploads it
+export const uploadRecord = (id, station, monthKey, day, extra = {}) => ({
+  id,
+  station,
+  stationKey: station.toLowerCase(),
+  group: 'A',
+  groupKey: 'a',
+  date: `${monthKey}-${String(day).padStart(2, '0')}T00:00:00.000Z`,
+  monthKey,
+  day,
+  days: 2,
+  charge: 100,
+  year: Number(monthKey.slice(0, 4)),
+  ...extra
+});
+
+// init, PUT to the signed URL, finalize; `content` may differ from what `hash` claims
+export const publish = async (server, year, content, { hash, mode = 'replace' } = {}) => {
+  const declared = hash || createHash('sha256').update(content).digest('hex');
+  const ingest = server.withKey(INGEST_KEY);
+  const init = await ingest('/api/upload/init', { method: 'POST', body: { year: String(year), type: 'records', hash: declared, mode } });
+  const initBody = await init.json();
+  if (initBody.status !== 'ok') return { init: initBody };
+  await fetch(`${server.baseUrl}${initBody.signedUrl}`, { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: content });
+  const finalize = await ingest('/api/upload/finalize', { method: 'POST', body: { year: String(year), type: 'records', hash: declared, mode } });
+  return { fileName: initBody.path, finalize, hash: declared };
+};
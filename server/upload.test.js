@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { startServer, uploadRecord, publish, ADMIN_PASSWORD, INGEST_KEY } from './testServer.js';
+
+const RECORDS = [uploadRecord(0, 'Athens', '2024-03', 2), uploadRecord(1, 'Patras', '2024-03', 4)];
+const hashOf = (content) => createHash('sha256').update(content).digest('hex');
+
+let server;
+let ingest;
+let activeFile;
+
+beforeAll(async () => {
+  server = await startServer();
+  ingest = server.withKey(INGEST_KEY);
+  const admin = await server.signIn('admin', ADMIN_PASSWORD);
+  await admin('/api/years', { method: 'POST', body: { year: '2024' } });
+  const { fileName, finalize } = await publish(server, 2024, JSON.stringify(RECORDS));
+  expect(finalize.status).toBe(200);
+  activeFile = fileName;
+}, 30000);
+
+afterAll(() => server?.stop());
+
+describe('upload finalize', () => {
+  it('rejects a hash that is not a SHA-256 and leaves the stored files alone', async () => {
+    const res = await ingest('/api/upload/finalize', { method: 'POST', body: { year: '2024', type: 'records', hash: 'records' } });
+    expect(res.status).toBe(400);
+    expect(await server.storedFiles('data/2024')).toEqual([path.basename(activeFile)]);
+    expect(await server.storedFiles('quarantine/data/2024')).toEqual([]);
+  });
+
+  it('quarantines and removes an upload whose content does not match its hash', async () => {
+    const other = JSON.stringify([uploadRecord(0, 'Patras', '2024-03', 9)]);
+    const { fileName, finalize } = await publish(server, 2024, other, { hash: hashOf('something else') });
+
+    expect(finalize.status).toBe(422);
+    expect((await finalize.json()).error).toMatch(/does not match the declared/);
+    expect(await server.storedFiles('data/2024')).toEqual([path.basename(activeFile)]);
+    expect(await server.storedFiles('quarantine/data/2024')).toContain(path.basename(fileName));
+  });
+
+  it('keeps the file of the active version even when it fails verification', async () => {
+    const activePath = path.join(server.storageDir, activeFile);
+    const original = await readFile(activePath);
+    await writeFile(activePath, JSON.stringify([...RECORDS, uploadRecord(2, 'Patras', '2024-03', 5)]));
+    try {
+      const res = await ingest('/api/upload/finalize', { method: 'POST', body: { year: '2024', type: 'records', hash: hashOf(original) } });
+      expect(res.status).toBe(422);
+      expect(await server.storedFiles('data/2024')).toEqual([path.basename(activeFile)]);
+      expect(await server.storedFiles('quarantine/data/2024')).toContain(path.basename(activeFile));
+    } finally {
+      await writeFile(activePath, original);
+    }
+  });
+});
+
+describe('upload verification', () => {
+  const rejection = async (content) => {
+    const { finalize } = await publish(server, 2024, content);
+    expect(finalize.status).toBe(422);
+    return (await finalize.json()).problems;
+  };
+
+  it('rejects content that is not a list of records', async () => {
+    expect(await rejection('not json')).toEqual(['File is not valid JSON']);
+    expect(await rejection('{"records":[]}')).toEqual(['File is not a list of records']);
+    expect(await rejection('[]')).toEqual(['File contains no records']);
+  });
+
+  it('names the invalid records and what is wrong with them', async () => {
+    const problems = await rejection(JSON.stringify([
+      uploadRecord(0, 'Athens', '2024-03', 2),
+      uploadRecord(1, 'Athens', '2024-03', 3, { days: 0, currency: 'euro' }),
+      uploadRecord(2, '', '2024-03', 4),
+    ]));
+    expect(problems).toEqual([
+      '2 of 3 records are invalid',
+      'Record 2: days is not a positive number, currency is not a 3-letter code',
+      'Record 3: station is missing, stationKey is missing',
+    ]);
+  });
+
+  it('rejects records of another year', async () => {
+    const problems = await rejection(JSON.stringify([uploadRecord(0, 'Athens', '2023-12', 30)]));
+    expect(problems[1]).toBe('Record 1: belongs to 2023 instead of 2024');
+  });
+});
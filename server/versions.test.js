@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, uploadRecord, publish, ADMIN_PASSWORD, QUERY_KEY } from './testServer.js';
+
+const FIRST = [uploadRecord(0, 'Athens', '2024-03', 2), uploadRecord(1, 'Patras', '2024-03', 4), uploadRecord(2, 'Patras', '2024-03', 4)];
+const SECOND = [uploadRecord(0, 'Athens', '2024-03', 2), uploadRecord(1, 'Patras', '2024-03', 4), uploadRecord(2, 'Patras', '2024-04', 9, { charge: 150 })];
+
+let server;
+let admin;
+
+beforeAll(async () => {
+  server = await startServer();
+  admin = await server.signIn('admin', ADMIN_PASSWORD);
+  await admin('/api/years', { method: 'POST', body: { year: '2024' } });
+  await publish(server, 2024, JSON.stringify(FIRST));
+  await publish(server, 2024, JSON.stringify(SECOND));
+}, 30000);
+
+afterAll(() => server?.stop());
+
+const activeRecords = async () => {
+  const { url } = await (await admin('/api/years/2024/records')).json();
+  return (await admin(url)).json();
+};
+
+describe('version history', () => {
+  it('lists every published version, newest first', async () => {
+    const { active, versions } = await (await admin('/api/years/2024/versions')).json();
+    expect(active).toBe(2);
+    expect(versions.map(v => [v.version, v.rows])).toEqual([[2, 3], [1, 3]]);
+  });
+
+  it('diffs two versions row for row, repeated rows included', async () => {
+    const diff = await (await admin('/api/years/2024/diff?from=1&to=2')).json();
+    expect(diff).toMatchObject({ from: 1, to: 2, added: 1, removed: 1, unchanged: 2 });
+    expect(diff.addedSample.map(r => r.monthKey)).toEqual(['2024-04']);
+    expect(diff.months).toEqual([
+      { month: '2024-03', revenueFrom: 300, revenueTo: 200, daysFrom: 6, daysTo: 4 },
+      { month: '2024-04', revenueFrom: 0, revenueTo: 150, daysFrom: 0, daysTo: 2 },
+    ]);
+    expect((await admin('/api/years/2024/diff?from=1&to=7')).status).toBe(404);
+  });
+
+  it('rolls back to an earlier version and forward again, keeping the history', async () => {
+    const res = await admin('/api/years/2024/versions/1/activate', { method: 'POST' });
+    expect(res.status).toBe(200);
+    expect((await res.json()).metadata.years['2024']).toMatchObject({ version: 1, rowCount: 3 });
+    expect((await activeRecords()).map(r => r.day)).toEqual([2, 4, 4]);
+
+    const { active, versions } = await (await admin('/api/years/2024/versions')).json();
+    expect(active).toBe(1);
+    expect(versions).toHaveLength(2);
+
+    await admin('/api/years/2024/versions/2/activate', { method: 'POST' });
+    expect((await activeRecords()).map(r => r.day)).toEqual([2, 4, 9]);
+  });
+
+  it('rejects unknown versions and callers below admin', async () => {
+    expect((await admin('/api/years/2024/versions/0/activate', { method: 'POST' })).status).toBe(400);
+    expect((await admin('/api/years/2024/versions/9/activate', { method: 'POST' })).status).toBe(404);
+    const viewer = server.withKey(QUERY_KEY);
+    expect((await viewer('/api/years/2024/versions/1/activate', { method: 'POST' })).status).toBe(403);
+  });
+});
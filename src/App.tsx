@@ -1,21 +1,41 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
+import { ColumnMapper } from './components/ColumnMapper';
+import { ImportReport } from './components/ImportReport';
+import { YearSplitReview } from './components/YearSplitReview';
+import { OutlierReview } from './components/OutlierReview';
+import { AliasManager } from './components/AliasManager';
+import { CurrencyManager } from './components/CurrencyManager';
+import { VersionHistory } from './components/VersionHistory';
+import { UserManager } from './components/UserManager';
+import { AuditLog } from './components/AuditLog';
 import { Dashboard } from './components/Dashboard';
-import { ProcessedData, UploadStatus, AppMetadata, DatasetRegistry } from './types';
-import { parseExcelFile } from './utils/excelProcessor';
+import { ProcessedData, UploadStatus, AppMetadata, DatasetRegistry, FileInspection, MappingProfile, ColumnMapping, ImportOptions, ImportSummary, LocaleProfile, ParseProgress, SliceAction, DuplicateConfig, AliasDictionary, FxSettings, UploadMode, DeltaReport, VersionDiff, ChargeRules, OutlierFlag, OutlierDecision, UserAccount, UserRole, UserChanges, StationAccess, AuditFilter } from './types';
+import { parseExcelFile, inspectFile, ImportCancelledError } from './utils/excelProcessor';
 import { api } from './services/api';
-import { Lock, LogOut, Cloud, Database, AlertCircle, Loader2 } from 'lucide-react';
+import { splitByYear, renumberRecords, hashRecords, buildProcessedData, dominantYear } from './utils/datasetUtils';
+import { resolveDuplicates } from './utils/duplicates';
+import { applyAliases, EMPTY_ALIASES } from './utils/aliases';
+import { DEFAULT_FX } from './utils/currency';
+import { applyOutlierDecisions } from './utils/outliers';
+import { Lock, LogOut, Cloud, Database, AlertCircle, Loader2, Plus, UserRound } from 'lucide-react';
 
 const App: React.FC = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isLoadingAuth, setIsLoadingAuth] = useState(true);
   
   // Login State
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [loginError, setLoginError] = useState('');
   const [isLoggingIn, setIsLoggingIn] = useState(false);
 
+  const [user, setUser] = useState<UserAccount | null>(null);
+  const [users, setUsers] = useState<UserAccount[]>([]); // Managed accounts, loaded for admins
   const [metadata, setMetadata] = useState<AppMetadata | null>(null);
+  const [aliases, setAliases] = useState<AliasDictionary>(EMPTY_ALIASES);
+  const [fx, setFx] = useState<FxSettings>(DEFAULT_FX);
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_FX.baseCurrency);
   
   // --- New Architecture State ---
   const [datasetRegistry, setDatasetRegistry] = useState<DatasetRegistry>({});
@@ -25,8 +45,27 @@ const App: React.FC = () => {
   // Loading & In-flight tracking
   const [loadingYears, setLoadingYears] = useState<Set<number>>(new Set());
   const inflightRequests = useRef<Map<number, Promise<void>>>(new Map());
+  const inflightRecords = useRef<Set<number>>(new Set()); // Raw record downloads replacing a stats cube
   const [uploadStatus, setUploadStatus] = useState<Record<string, UploadStatus>>({});
 
+  // Column mapping step between file selection and parsing
+  const [pendingImport, setPendingImport] = useState<{ file: File; inspection: FileInspection } | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  const [importError, setImportError] = useState<string | undefined>();
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [parseProgress, setParseProgress] = useState<ParseProgress | undefined>();
+  const parseAbort = useRef<AbortController | null>(null);
+
+  // Parsed file with unusual rates, awaiting review before the year split
+  const [pendingReview, setPendingReview] = useState<{ data: ProcessedData; hash: string; outliers: OutlierFlag[] } | null>(null);
+  // Parsed file split into calendar years, awaiting a decision per year
+  const [pendingSplit, setPendingSplit] = useState<{ slices: ProcessedData[]; hash: string } | null>(null);
+  // Active cloud datasets for the split's years, for duplicate checks and merging
+  const [cloudSnapshots, setCloudSnapshots] = useState<Record<number, ProcessedData>>({});
+  const [isLoadingSnapshots, setIsLoadingSnapshots] = useState(false);
+  const [newYear, setNewYear] = useState('');
+  const [isOpeningYear, setIsOpeningYear] = useState(false);
+
   // Init
   useEffect(() => {
     checkAuth();
@@ -36,7 +75,29 @@ const App: React.FC = () => {
     setIsLoadingAuth(true);
     const result = await api.checkAuth();
     setIsAuthenticated(result.isAuthenticated);
+    setUser(result.user || null);
     if (result.metadata) setMetadata(result.metadata);
+    if (result.user?.role === 'admin') {
+      try {
+        setUsers(await api.getUsers());
+      } catch (e) {
+        console.warn("Users unavailable:", e);
+      }
+    }
+    if (result.isAuthenticated) {
+      try {
+        setAliases(await api.getAliases());
+      } catch (e) {
+        console.warn("Aliases unavailable:", e);
+      }
+      try {
+        const settings = await api.getFxSettings();
+        setFx(settings);
+        setReportingCurrency(settings.baseCurrency);
+      } catch (e) {
+        console.warn("FX rates unavailable:", e);
+      }
+    }
     setIsLoadingAuth(false);
   };
 
@@ -45,9 +106,13 @@ const App: React.FC = () => {
     setLoginError('');
     setIsLoggingIn(true);
     try {
-      const success = await api.login(password);
-      if (success) await checkAuth();
-      else setLoginError('Invalid Password');
+      const success = await api.login(username, password);
+      if (success) {
+        setPassword('');
+        await checkAuth();
+      } else {
+        setLoginError('Invalid username or password');
+      }
     } catch (err) {
       console.error(err);
       setLoginError('Connection error.');
@@ -59,6 +124,8 @@ const App: React.FC = () => {
   const handleLogout = async () => {
     await api.logout();
     setIsAuthenticated(false);
+    setUser(null);
+    setUsers([]);
     setDatasetRegistry({});
     setPrimaryYear(null);
     setComparisonYear('none');
@@ -72,8 +139,8 @@ const App: React.FC = () => {
     data.records.forEach(r => {
       if (r.date && !isNaN(r.date.getTime())) {
         const y = r.date.getFullYear();
-        counts[y] = (counts[y] || 0) + 1;
-        valid++;
+        counts[y] = (counts[y] || 0) + (r.count ?? 1);
+        valid += r.count ?? 1;
       }
     });
 
@@ -103,7 +170,14 @@ const App: React.FC = () => {
     const promise = (async () => {
       setLoadingYears(prev => new Set(prev).add(year));
       try {
-        const data = await api.fetchYearData(String(year));
+        // The stats cube is a fraction of the size; raw records are the fallback for older setups
+        let data: ProcessedData;
+        try {
+          data = await api.fetchYearStats(String(year), aliases);
+        } catch (e) {
+          console.warn(`Stats for ${year} unavailable, loading records:`, e);
+          data = await api.fetchYearData(String(year), aliases);
+        }
         
         if (!verifyYearMode(data, year)) {
            alert(`Warning: The data for ${year} appears to contain mostly records from another year.`);
@@ -127,49 +201,368 @@ const App: React.FC = () => {
     return promise;
   };
 
+  // Replace a year's stats cube with its raw records, for views that need single rentals
+  const loadYearRecords = async (year: number): Promise<void> => {
+    if (inflightRecords.current.has(year)) return;
+    if (!datasetRegistry[year] && !metadata?.years[year]?.hash) return; // Opened, but nothing published yet
+    inflightRecords.current.add(year);
+    setLoadingYears(prev => new Set(prev).add(year));
+    try {
+      const data = await api.fetchYearData(String(year), aliases);
+      setDatasetRegistry(prev => ({ ...prev, [year]: data }));
+    } catch (e) {
+      console.error(`Failed to load records of ${year}`, e);
+      alert(`Failed to download the records of ${year}`);
+    } finally {
+      setLoadingYears(prev => {
+        const next = new Set(prev);
+        next.delete(year);
+        return next;
+      });
+      inflightRecords.current.delete(year);
+    }
+  };
+
   // --- Upload Logic ---
 
   const handleLocalFileUpload = async (file: File) => {
     setUploadStatus(prev => ({ ...prev, local: 'parsing' }));
+    setImportError(undefined);
+    setImportSummary(null);
+    setParseProgress(undefined);
+    parseAbort.current = new AbortController();
     try {
-      const { data, hash } = await parseExcelFile(file);
-      
-      // Update Registry directly with local file
-      setDatasetRegistry(prev => ({ ...prev, [data.year]: data }));
-      
-      // Auto-select if no primary is set
-      if (!primaryYear) {
-        setPrimaryYear(data.year);
+      const [inspection, profiles] = await Promise.all([
+        inspectFile(file, parseAbort.current.signal),
+        api.getMappingProfiles().catch(e => {
+          console.warn("Mapping profiles unavailable:", e);
+          return [] as MappingProfile[];
+        })
+      ]);
+      setMappingProfiles(profiles);
+      setPendingImport({ file, inspection });
+      setUploadStatus(prev => ({ ...prev, local: 'idle' }));
+    } catch (e: any) {
+      if (e instanceof ImportCancelledError) {
+        setUploadStatus(prev => ({ ...prev, local: 'idle' }));
+        return;
       }
+      console.error(e);
+      setImportError(e.message);
+      setUploadStatus(prev => ({ ...prev, local: 'error' }));
+    }
+  };
 
-      // Prompt for Cloud Upload if historical
-      if ([2023, 2024, 2025].includes(data.year)) {
-        if (confirm(`Detected ${data.year} data. Upload to cloud for permanent storage?`)) {
-           await handleCloudUpload(data.year, data.records, hash);
-        }
-      }
-      setUploadStatus(prev => ({ ...prev, local: 'success' }));
+  const handleSaveMappingProfile = async (name: string, mapping: ColumnMapping, locale: LocaleProfile, chargeRules: ChargeRules) => {
+    if (!pendingImport) return;
+    try {
+      const profile = await api.saveMappingProfile(name, mapping, locale, chargeRules, pendingImport.inspection.headers);
+      setMappingProfiles(prev => [...prev.filter(p => p.name !== name), profile].sort((a, b) => a.name.localeCompare(b.name)));
     } catch (e) {
       console.error(e);
+      alert('Failed to save mapping profile.');
+    }
+  };
+
+  const handleDeleteMappingProfile = async (name: string) => {
+    try {
+      await api.deleteMappingProfile(name);
+      setMappingProfiles(prev => prev.filter(p => p.name !== name));
+    } catch (e) {
+      console.error(e);
+      alert('Failed to delete mapping profile.');
+    }
+  };
+
+  const handleMappingConfirm = async (mapping: ColumnMapping, options: ImportOptions) => {
+    if (!pendingImport) return;
+    const { file } = pendingImport;
+    setPendingImport(null);
+    setUploadStatus(prev => ({ ...prev, local: 'parsing' }));
+    setParseProgress(undefined);
+    parseAbort.current = new AbortController();
+    try {
+      const { data, hash, rejections, chargeCounts, outliers } = await parseExcelFile(file, mapping, { ...options, aliases }, {
+        onProgress: setParseProgress,
+        signal: parseAbort.current.signal
+      });
+      setImportSummary({
+        fileName: file.name,
+        // Netted refunds are folded into another record, so they still count as imported rows
+        totalRows: data.totalRecords + rejections.length + (chargeCounts?.netted || 0),
+        importedRows: data.totalRecords + (chargeCounts?.netted || 0),
+        rejections,
+        chargeCounts
+      });
+
+      if (outliers.length > 0) setPendingReview({ data, hash, outliers });
+      else startSplit(data, hash);
+      setUploadStatus(prev => ({ ...prev, local: 'success' }));
+    } catch (e: any) {
+      if (e instanceof ImportCancelledError) {
+        setUploadStatus(prev => ({ ...prev, local: 'idle' }));
+        return;
+      }
+      console.error(e);
+      setImportError(e.message);
       setUploadStatus(prev => ({ ...prev, local: 'error' }));
     }
   };
 
-  const handleCloudUpload = async (year: number, records: any[], hash: string) => {
+  const startSplit = (data: ProcessedData, hash: string) => {
+    const slices = splitByYear(data);
+    setPendingSplit({ slices, hash });
+    loadCloudSnapshots(slices.map(sl => sl.year));
+  };
+
+  const handleOutlierReview = async (decisions: Record<number, OutlierDecision>) => {
+    if (!pendingReview) return;
+    const { data, hash, outliers } = pendingReview;
+    setPendingReview(null);
+
+    const { records, counts } = applyOutlierDecisions(data.records, outliers, decisions);
+    setImportSummary(prev => prev ? {
+      ...prev,
+      importedRows: prev.importedRows - counts.excluded,
+      outlierCounts: counts
+    } : prev);
+
+    const isChanged = counts.excluded > 0 || counts.corrected > 0;
+    startSplit(
+      isChanged ? buildProcessedData(records, dominantYear(records)) : data,
+      isChanged ? await hashRecords(records) : hash
+    );
+  };
+
+  const loadCloudSnapshots = async (years: number[]) => {
+    const activeYears = years.filter(y => metadata?.years?.[String(y)]?.status === 'active');
+    setCloudSnapshots({});
+    if (activeYears.length === 0) return;
+
+    setIsLoadingSnapshots(true);
+    const loaded: Record<number, ProcessedData> = {};
+    await Promise.all(activeYears.map(async year => {
+      try {
+        loaded[year] = await api.fetchYearData(String(year), aliases);
+      } catch (e) {
+        console.warn(`Could not load ${year} for duplicate checks`, e);
+      }
+    }));
+    setCloudSnapshots(loaded);
+    setIsLoadingSnapshots(false);
+  };
+
+  const handleApplySlices = async (decisions: Record<number, SliceAction>, duplicateConfig: DuplicateConfig) => {
+    if (!pendingSplit) return;
+    const { slices, hash } = pendingSplit;
+    setPendingSplit(null);
+
+    let firstYear: number | null = null;
+    let duplicatesRemoved = 0;
+    const deltas: Record<number, DeltaReport> = {};
+    for (const slice of slices) {
+      const action = decisions[slice.year] || 'skip';
+      if (action === 'skip') continue;
+
+      if (action === 'append') {
+        // The server merges the delta into its latest version; show what it produced
+        const { records, report } = resolveDuplicates(slice.records, null, duplicateConfig);
+        duplicatesRemoved += report.removed;
+        const delta = renumberRecords(records);
+        const result = await handleCloudUpload(slice.year, delta, await hashRecords(delta), 'append');
+        if (!result) continue;
+        deltas[slice.year] = result;
+        try {
+          const merged = await api.fetchYearData(String(slice.year), aliases);
+          setDatasetRegistry(prev => ({ ...prev, [slice.year]: merged }));
+          if (firstYear === null) firstYear = slice.year;
+        } catch (e) {
+          console.error(e);
+        }
+        continue;
+      }
+
+      let existing: ProcessedData | null = null;
+      if (action === 'merge') {
+        try {
+          existing = cloudSnapshots[slice.year] || await api.fetchYearData(String(slice.year), aliases);
+        } catch (e) {
+          console.error(e);
+          alert(`Failed to download the existing ${slice.year} dataset; nothing was merged.`);
+          continue;
+        }
+      }
+
+      const { records, report } = resolveDuplicates(slice.records, existing ? existing.records : null, duplicateConfig);
+      duplicatesRemoved += report.removed;
+      const isUnchanged = !existing && report.removed === 0;
+      const dataset = isUnchanged ? slice : buildProcessedData(renumberRecords(records), slice.year);
+
+      setDatasetRegistry(prev => ({ ...prev, [slice.year]: dataset }));
+      if (firstYear === null) firstYear = slice.year;
+
+      if (action === 'replace' || action === 'merge') {
+        // The worker's hash already covers a single, unmodified slice
+        const datasetHash = slices.length === 1 && isUnchanged ? hash : await hashRecords(dataset.records);
+        await handleCloudUpload(slice.year, dataset.records, datasetHash);
+      }
+    }
+
+    setImportSummary(prev => prev ? { ...prev, duplicatesRemoved, deltas } : prev);
+
+    // Auto-select if no primary is set
+    if (!primaryYear && firstYear !== null) {
+      setPrimaryYear(firstYear);
+    }
+  };
+
+  const handleCloudUpload = async (year: number, records: any[], hash: string, mode: UploadMode = 'replace') => {
     const key = String(year);
     setUploadStatus(prev => ({ ...prev, [key]: 'uploading' }));
     try {
-      await api.uploadDataset(year, records, hash, (msg) => console.log(msg));
+      const delta = await api.uploadDataset(year, records, hash, (msg) => console.log(msg), mode);
       setUploadStatus(prev => ({ ...prev, [key]: 'success' }));
       const res = await api.checkAuth();
       if (res.metadata) setMetadata(res.metadata);
+      return delta;
     } catch (e) {
       console.error(e);
       setUploadStatus(prev => ({ ...prev, [key]: 'error' }));
-      alert('Upload failed.');
+      alert(`Upload of ${year} failed. ${e instanceof Error ? e.message : ''}`);
+    }
+  };
+
+  const handleSaveAliases = async (draft: AliasDictionary) => {
+    try {
+      const saved = await api.saveAliases(draft);
+      setAliases(saved);
+      // Re-apply to everything already loaded so the dashboard picks up the new names
+      setDatasetRegistry(prev => {
+        const next: DatasetRegistry = {};
+        Object.values(prev).forEach(d => {
+          next[d.year] = buildProcessedData(applyAliases(d.records, saved), d.year);
+        });
+        return next;
+      });
+    } catch (e) {
+      console.error(e);
+      alert('Failed to save aliases.');
+    }
+  };
+
+  const handleSaveFx = async (draft: FxSettings) => {
+    try {
+      const saved = await api.saveFxSettings(draft);
+      setFx(saved);
+    } catch (e) {
+      console.error(e);
+      alert('Failed to save currencies.');
+    }
+  };
+
+  const handleOpenYear = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const year = parseInt(newYear);
+    if (!year) return;
+    setIsOpeningYear(true);
+    try {
+      setMetadata(await api.openYear(year));
+      setNewYear('');
+    } catch (err: any) {
+      console.error(err);
+      alert(err.message);
+    } finally {
+      setIsOpeningYear(false);
+    }
+  };
+
+  const handleActivateVersion = async (year: number, version: number) => {
+    try {
+      setMetadata(await api.activateVersion(year, version));
+      // A loaded copy of the year is now stale
+      if (datasetRegistry[year]) {
+        const data = datasetRegistry[year].aggregated
+          ? await api.fetchYearStats(String(year), aliases)
+          : await api.fetchYearData(String(year), aliases);
+        setDatasetRegistry(prev => ({ ...prev, [year]: data }));
+      }
+    } catch (e) {
+      console.error(e);
+      alert(`Failed to activate version ${version} of ${year}.`);
     }
   };
 
+  const handleDiffVersions = async (year: number, from: number, to: number): Promise<VersionDiff> => {
+    try {
+      return await api.diffVersions(year, from, to);
+    } catch (e) {
+      console.error(e);
+      alert('Failed to compare versions.');
+      throw e;
+    }
+  };
+
+  const handleCreateUser = async (name: string, newPassword: string, role: UserRole, access: StationAccess) => {
+    try {
+      setUsers(await api.createUser(name, newPassword, role, access));
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+      throw e;
+    }
+  };
+
+  const handleUpdateUser = async (name: string, changes: UserChanges) => {
+    try {
+      const updated = await api.updateUser(name, changes);
+      setUsers(updated);
+      // Demoting yourself takes effect right away
+      const self = updated.find(u => u.username === user?.username);
+      if (self) setUser(self);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  const handleDeleteUser = async (name: string) => {
+    try {
+      setUsers(await api.deleteUser(name));
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message);
+    }
+  };
+
+  const handleLoadAudit = async (filter: AuditFilter) => {
+    try {
+      return await api.getAuditLog(filter);
+    } catch (e) {
+      console.error(e);
+      alert('Failed to load the audit log.');
+      throw e;
+    }
+  };
+
+  // Station / group spellings across loaded datasets, for alias suggestions
+  const nameCounts = React.useMemo(() => {
+    const stations = new Map<string, number>();
+    const groups = new Map<string, number>();
+    Object.values(datasetRegistry).forEach(d => {
+      d.records.forEach(r => {
+        stations.set(r.station, (stations.get(r.station) || 0) + (r.count ?? 1));
+        groups.set(r.group, (groups.get(r.group) || 0) + (r.count ?? 1));
+      });
+    });
+    return { stations, groups };
+  }, [datasetRegistry]);
+
+  // Years opened on the server, newest first; only these accept uploads
+  const cloudYears = React.useMemo(
+    () => Object.keys(metadata?.years || {}).map(y => parseInt(y)).sort((a, b) => b - a),
+    [metadata]
+  );
+
   const availableYears = React.useMemo(() => {
     const years = new Set<number>();
     // From Metadata
@@ -181,6 +574,9 @@ const App: React.FC = () => {
     return Array.from(years).sort((a, b) => b - a); // Descending
   }, [metadata, datasetRegistry]);
 
+  const isAdmin = user?.role === 'admin';
+  const canUpload = user?.role === 'uploader' || isAdmin;
+
   // --- Renders ---
 
   if (isLoadingAuth) {
@@ -196,6 +592,7 @@ const App: React.FC = () => {
             <h1 className="text-2xl font-bold text-slate-800">Secure Dashboard Access</h1>
           </div>
           <div className="space-y-2">
+            <input type="text" value={username} onChange={e => setUsername(e.target.value)} className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none" placeholder="Username" autoComplete="username" disabled={isLoggingIn} />
             <input type="password" value={password} onChange={e => setPassword(e.target.value)} className="w-full px-4 py-3 rounded-lg border border-slate-300 focus:ring-2 focus:ring-blue-500 outline-none" placeholder="Password" disabled={isLoggingIn} />
             {loginError && <p className="text-red-500 text-sm flex items-center gap-1"><AlertCircle className="w-4 h-4" /> {loginError}</p>}
           </div>
@@ -216,18 +613,26 @@ const App: React.FC = () => {
             <h1 className="text-2xl font-bold text-slate-900">Data Management Console</h1>
             <p className="text-slate-500">Select a dataset to view or upload new data.</p>
           </div>
-          <button onClick={handleLogout} className="flex items-center gap-2 text-slate-600 hover:text-red-600 transition-colors">
-            <LogOut className="w-5 h-5" /> Logout
-          </button>
+          <div className="flex items-center gap-6">
+            {user && (
+              <span className="flex items-center gap-2 text-sm text-slate-600">
+                <UserRound className="w-4 h-4" /> {user.username}
+                <span className="text-xs text-slate-400 capitalize">{user.role}</span>
+              </span>
+            )}
+            <button onClick={handleLogout} className="flex items-center gap-2 text-slate-600 hover:text-red-600 transition-colors">
+              <LogOut className="w-5 h-5" /> Logout
+            </button>
+          </div>
         </header>
 
         <div className="max-w-5xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-8">
           <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-6">
             <h2 className="text-lg font-semibold flex items-center gap-2"><Cloud className="w-5 h-5 text-blue-500" /> Cloud Datasets</h2>
             <div className="space-y-4">
-              {['2023', '2024', '2025'].map(yearStr => {
-                const year = parseInt(yearStr);
-                const meta = metadata?.years?.[yearStr];
+              {cloudYears.length === 0 && <p className="text-sm text-slate-400 italic">No years opened yet.</p>}
+              {cloudYears.map(year => {
+                const meta = metadata?.years?.[String(year)];
                 const isLoaded = !!datasetRegistry[year];
                 const isLoading = loadingYears.has(year);
                 
@@ -253,14 +658,110 @@ const App: React.FC = () => {
                 );
               })}
             </div>
+            {isAdmin && <form onSubmit={handleOpenYear} className="flex gap-3">
+              <input
+                type="number"
+                value={newYear}
+                onChange={(e) => setNewYear(e.target.value)}
+                min={metadata?.yearBounds?.min}
+                max={metadata?.yearBounds?.max}
+                placeholder="Year, e.g. 2026"
+                className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <button
+                type="submit"
+                disabled={isOpeningYear || !newYear}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-2 disabled:opacity-50"
+              >
+                {isOpeningYear ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} Open Year
+              </button>
+            </form>}
           </div>
 
           <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 flex flex-col">
              <h2 className="text-lg font-semibold flex items-center gap-2 mb-4"><Database className="w-5 h-5 text-purple-500" /> Import New Data</h2>
              <div className="flex-1">
-               <FileUpload onFileUpload={handleLocalFileUpload} status={uploadStatus['local'] || 'idle'} />
+               {!canUpload ? (
+                 <p className="text-sm text-slate-400 italic">Your account can view data only. Ask an admin for the uploader role to import files.</p>
+               ) : pendingReview ? (
+                 <OutlierReview
+                   data={pendingReview.data}
+                   outliers={pendingReview.outliers}
+                   onConfirm={handleOutlierReview}
+                   onDiscard={() => setPendingReview(null)}
+                 />
+               ) : pendingSplit ? (
+                 <YearSplitReview
+                   slices={pendingSplit.slices}
+                   activeYears={new Set(Object.entries(metadata?.years || {}).filter(([, m]) => m.status === 'active').map(([y]) => parseInt(y)))}
+                   uploadableYears={cloudYears}
+                   cloudSnapshots={cloudSnapshots}
+                   isLoadingSnapshots={isLoadingSnapshots}
+                   onApply={handleApplySlices}
+                   onDiscard={() => setPendingSplit(null)}
+                 />
+               ) : pendingImport ? (
+                 <ColumnMapper
+                   fileName={pendingImport.file.name}
+                   inspection={pendingImport.inspection}
+                   profiles={mappingProfiles}
+                   onConfirm={handleMappingConfirm}
+                   onCancel={() => setPendingImport(null)}
+                   onSaveProfile={handleSaveMappingProfile}
+                   onDeleteProfile={handleDeleteMappingProfile}
+                 />
+               ) : (
+                 <FileUpload
+                   onFileUpload={handleLocalFileUpload}
+                   status={uploadStatus['local'] || 'idle'}
+                   error={importError}
+                   progress={parseProgress}
+                   onCancel={() => parseAbort.current?.abort()}
+                 />
+               )}
+               {importSummary && <ImportReport summary={importSummary} onDismiss={() => setImportSummary(null)} />}
              </div>
           </div>
+
+          {isAdmin && <div className="md:col-span-2">
+            <AliasManager
+              aliases={aliases}
+              stationCounts={nameCounts.stations}
+              groupCounts={nameCounts.groups}
+              onSave={handleSaveAliases}
+            />
+          </div>}
+
+          {isAdmin && <div className="md:col-span-2">
+            <CurrencyManager
+              fx={fx}
+              stations={Array.from(nameCounts.stations.keys()).sort()}
+              onSave={handleSaveFx}
+            />
+          </div>}
+
+          <div className="md:col-span-2">
+            <VersionHistory
+              metadata={metadata}
+              onActivate={isAdmin ? handleActivateVersion : undefined}
+              onDiff={handleDiffVersions}
+            />
+          </div>
+
+          {isAdmin && user && <div className="md:col-span-2">
+            <UserManager
+              users={users}
+              currentUser={user.username}
+              stationNames={Array.from(nameCounts.stations.keys()).sort()}
+              onCreate={handleCreateUser}
+              onUpdate={handleUpdateUser}
+              onDelete={handleDeleteUser}
+            />
+          </div>}
+
+          {isAdmin && <div className="md:col-span-2">
+            <AuditLog onLoad={handleLoadAudit} exportUrl={api.auditExportUrl} />
+          </div>}
         </div>
       </div>
     );
@@ -273,9 +774,14 @@ const App: React.FC = () => {
       comparisonYear={comparisonYear}
       availableYears={availableYears}
       loadingYears={loadingYears}
+      user={user}
+      fx={fx}
+      reportingCurrency={reportingCurrency}
+      onSetReportingCurrency={setReportingCurrency}
       onSetPrimaryYear={setPrimaryYear}
       onSetComparisonYear={setComparisonYear}
       onLoadYear={loadYear}
+      onLoadRecords={loadYearRecords}
       onReset={() => {
         setPrimaryYear(null);
         setComparisonYear('none');
@@ -0,0 +1,154 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Tags, Plus, Trash2, Save, Loader2, Sparkles } from 'lucide-react';
+import { AliasDictionary } from '../types';
+import { findNearDuplicates, normalizeName } from '../utils/aliases';
+
+interface AliasManagerProps {
+  aliases: AliasDictionary;
+  stationCounts: Map<string, number>; // Names seen in loaded datasets, with record counts
+  groupCounts: Map<string, number>;
+  onSave: (aliases: AliasDictionary) => Promise<void>;
+}
+
+type AliasKind = 'stations' | 'groups';
+
+export const AliasManager: React.FC<AliasManagerProps> = ({ aliases, stationCounts, groupCounts, onSave }) => {
+  const [kind, setKind] = useState<AliasKind>('stations');
+  const [draft, setDraft] = useState<AliasDictionary>(aliases);
+  const [newRaw, setNewRaw] = useState('');
+  const [newCanonical, setNewCanonical] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(aliases);
+  }, [aliases]);
+
+  const entries = Object.entries(draft[kind]).sort(([a], [b]) => a.localeCompare(b));
+  const isDirty = JSON.stringify(draft.stations) !== JSON.stringify(aliases.stations) ||
+    JSON.stringify(draft.groups) !== JSON.stringify(aliases.groups);
+
+  const suggestions = useMemo(
+    () => findNearDuplicates(kind === 'stations' ? stationCounts : groupCounts, draft[kind]),
+    [kind, stationCounts, groupCounts, draft]
+  );
+
+  const setEntry = (raw: string, canonical: string) => {
+    setDraft(prev => ({ ...prev, [kind]: { ...prev[kind], [normalizeName(raw)]: canonical } }));
+  };
+
+  const removeEntry = (raw: string) => {
+    setDraft(prev => {
+      const next = { ...prev[kind] };
+      delete next[raw];
+      return { ...prev, [kind]: next };
+    });
+  };
+
+  const handleAdd = () => {
+    if (!newRaw.trim() || !newCanonical.trim()) return;
+    setEntry(newRaw, newCanonical.trim());
+    setNewRaw('');
+    setNewCanonical('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Entries whose canonical name was cleared are dropped rather than rejected
+      const withoutEmpty = (map: Record<string, string>) =>
+        Object.fromEntries(Object.entries(map).filter(([, canonical]) => canonical.trim() !== ''));
+      await onSave({ ...draft, stations: withoutEmpty(draft.stations), groups: withoutEmpty(draft.groups) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><Tags className="w-5 h-5 text-amber-500" /> Name Aliases</h2>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {(['stations', 'groups'] as AliasKind[]).map(k => (
+            <button
+              key={k}
+              onClick={() => setKind(k)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${kind === k ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600'}`}
+            >
+              {k === 'stations' ? 'Stations' : 'Car Groups'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Suggestions */}
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-500 uppercase tracking-wider flex items-center gap-1"><Sparkles className="w-3 h-3" /> Possible duplicates</p>
+          {suggestions.map(sg => (
+            <div key={sg.canonical} className="flex items-center justify-between gap-3 p-3 bg-amber-50 rounded-lg text-sm">
+              <span className="text-slate-700">
+                {sg.variants.map(v => `"${v}"`).join(', ')} → <span className="font-semibold">{sg.canonical}</span>
+              </span>
+              <button
+                onClick={() => sg.variants.forEach(v => setEntry(v, sg.canonical))}
+                className="px-3 py-1 rounded-lg text-xs font-medium bg-white border border-slate-300 hover:border-blue-500 hover:text-blue-600 shrink-0"
+              >
+                Map
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      {stationCounts.size === 0 && groupCounts.size === 0 && (
+        <p className="text-xs text-slate-400 italic">Load or import a dataset to see near-duplicate suggestions.</p>
+      )}
+
+      {/* Entries */}
+      <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+        {entries.length === 0 && <p className="p-3 text-sm text-slate-400 italic">No aliases defined.</p>}
+        {entries.map(([raw, canonical]) => (
+          <div key={raw} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-center px-3 py-2 text-sm">
+            <span className="text-slate-600 truncate" title={raw}>{raw}</span>
+            <input
+              type="text"
+              value={canonical}
+              onChange={(e) => setEntry(raw, e.target.value)}
+              className="px-2 py-1 rounded border border-slate-200 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <button onClick={() => removeEntry(raw)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+      </div>
+
+      {/* Add */}
+      <div className="grid grid-cols-[1fr_1fr_auto] gap-3">
+        <input
+          type="text"
+          value={newRaw}
+          onChange={(e) => setNewRaw(e.target.value)}
+          placeholder="Name as exported"
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <input
+          type="text"
+          value={newCanonical}
+          onChange={(e) => setNewCanonical(e.target.value)}
+          placeholder="Canonical name"
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <button onClick={handleAdd} className="p-2 rounded-lg border border-slate-300 hover:border-blue-500 hover:text-blue-600"><Plus className="w-4 h-4" /></button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setDraft(aliases)} disabled={!isDirty} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 disabled:opacity-50">Reset</button>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 flex items-center gap-2"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save Aliases
+        </button>
+      </div>
+    </div>
+  );
+};
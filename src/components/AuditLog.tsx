@@ -0,0 +1,166 @@
+import React, { useState, useEffect } from 'react';
+import { ScrollText, Search, Download, Loader2, AlertTriangle } from 'lucide-react';
+import { AuditEntry, AuditFilter, AuditOutcome, AuditPage } from '../types';
+
+interface AuditLogProps {
+  onLoad: (filter: AuditFilter) => Promise<AuditPage>;
+  exportUrl: (filter: AuditFilter) => string;
+}
+
+const ACTIONS = [
+  'login', 'finalize_upload', 'finalize_append', 'quarantine_upload', 'open_year', 'activate_version',
+  'create_user', 'update_user', 'delete_user', 'update_aliases', 'update_fx_rates',
+  'save_mapping_profile', 'delete_mapping_profile',
+];
+
+const OUTCOME_STYLES: Record<AuditOutcome, string> = {
+  success: 'bg-green-100 text-green-700',
+  failure: 'bg-red-100 text-red-700',
+  rejected: 'bg-amber-100 text-amber-700',
+};
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 3600 * 1000).toISOString().slice(0, 10);
+
+// One line summary of the action-specific fields
+const describe = (entry: AuditEntry) => [
+  entry.hash && entry.hash.slice(0, 12),
+  entry.details && Object.entries(entry.details).map(([k, v]) => `${k}: ${typeof v === 'object' ? JSON.stringify(v) : v}`).join(', '),
+].filter(Boolean).join(' · ');
+
+export const AuditLog: React.FC<AuditLogProps> = ({ onLoad, exportUrl }) => {
+  const [filter, setFilter] = useState<AuditFilter>({ from: daysAgo(7) });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [unstored, setUnstored] = useState<AuditPage['unstored']>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const search = async () => {
+    setIsLoading(true);
+    try {
+      const result = await onLoad(filter);
+      setEntries(result.entries);
+      setTruncated(result.truncated);
+      setUnstored(result.unstored);
+    } catch {
+      // The caller reports the failure
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    search();
+  }, []);
+
+  const setField = (key: keyof AuditFilter, val: string) => {
+    setFilter(prev => ({ ...prev, [key]: val || undefined }));
+  };
+
+  const inputClass = 'px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none';
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2"><ScrollText className="w-5 h-5 text-slate-500" /> Audit Log</h2>
+
+      {unstored && (
+        <div className="flex items-start gap-2 bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <p>
+            The server cannot write the audit log since {new Date(unstored.since).toLocaleString()} ({unstored.error}).
+            {' '}{unstored.entries.toLocaleString()} entries are held in memory and will be lost if it restarts.
+            {unstored.dropped > 0 && <>{' '}{unstored.dropped.toLocaleString()} older entries have already been dropped.</>}
+          </p>
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          search();
+        }}
+        className="flex flex-wrap items-end gap-3 text-sm"
+      >
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          From
+          <input type="date" value={filter.from || ''} onChange={(e) => setField('from', e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          To
+          <input type="date" value={filter.to || ''} onChange={(e) => setField('to', e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          User
+          <input value={filter.user || ''} onChange={(e) => setField('user', e.target.value.trim())} placeholder="Any" className={`${inputClass} w-32`} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          Action
+          <select value={filter.action || ''} onChange={(e) => setField('action', e.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            {ACTIONS.map(a => <option key={a} value={a}>{a}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          Year
+          <input value={filter.year || ''} onChange={(e) => setField('year', e.target.value.trim())} placeholder="Any" className={`${inputClass} w-24`} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500">
+          Outcome
+          <select value={filter.outcome || ''} onChange={(e) => setField('outcome', e.target.value)} className={inputClass}>
+            <option value="">Any</option>
+            {(Object.keys(OUTCOME_STYLES) as AuditOutcome[]).map(o => <option key={o} value={o}>{o}</option>)}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-2 disabled:opacity-50"
+        >
+          {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />} Search
+        </button>
+        <a
+          href={exportUrl(filter)}
+          download="audit-log.csv"
+          className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-2"
+        >
+          <Download className="w-4 h-4" /> Export CSV
+        </a>
+      </form>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">{isLoading ? 'Loading...' : 'No entries match.'}</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500 sticky top-0">
+              <tr>
+                <th className="text-left font-medium px-3 py-2">Time</th>
+                <th className="text-left font-medium px-3 py-2">User</th>
+                <th className="text-left font-medium px-3 py-2">Action</th>
+                <th className="text-left font-medium px-3 py-2">Year</th>
+                <th className="text-left font-medium px-3 py-2">Outcome</th>
+                <th className="text-left font-medium px-3 py-2">IP</th>
+                <th className="text-left font-medium px-3 py-2">Details</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {entries.map((e, i) => (
+                <tr key={`${e.timestamp}-${i}`}>
+                  <td className="px-3 py-1.5 text-slate-600 whitespace-nowrap">{new Date(e.timestamp).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-slate-700">{e.user || '—'}</td>
+                  <td className="px-3 py-1.5 font-mono text-xs text-slate-700">{e.action}</td>
+                  <td className="px-3 py-1.5 text-slate-600">{e.year || ''}</td>
+                  <td className="px-3 py-1.5">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_STYLES[e.outcome] || 'bg-slate-100 text-slate-600'}`}>{e.outcome}</span>
+                  </td>
+                  <td className="px-3 py-1.5 text-xs text-slate-400">{e.ip}</td>
+                  <td className="px-3 py-1.5 text-xs text-slate-500 max-w-xs truncate" title={describe(e)}>{describe(e)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {truncated && <p className="text-xs text-slate-400">Showing the newest {entries.length.toLocaleString()} entries; narrow the filter or export to see more.</p>}
+    </div>
+  );
+};
@@ -0,0 +1,309 @@
+import React, { useState, useMemo } from 'react';
+import { Columns, Save, Trash2, AlertCircle, AlertTriangle, CheckCircle2, Loader2, Layers, Globe, ReceiptText } from 'lucide-react';
+import { FileInspection, MappingProfile, ColumnMapping, MappableField, ImportOptions, LocaleProfile, DateOrder, ChargeRules, ChargeRuleAction, OutlierMethod } from '../types';
+import { MAPPABLE_FIELDS, findMatchingProfile, getMissingRequiredFields } from '../utils/columnMapping';
+import { DATE_ORDER_LABELS, detectLocale, checkLocale, buildLocaleSamples } from '../utils/localeProfile';
+import { DEFAULT_CHARGE_RULES, CHARGE_RULE_LABELS } from '../utils/chargeRules';
+import { OUTLIER_METHOD_LABELS } from '../utils/outliers';
+
+interface ColumnMapperProps {
+  fileName: string;
+  inspection: FileInspection;
+  profiles: MappingProfile[];
+  onConfirm: (mapping: ColumnMapping, options: ImportOptions) => void;
+  onCancel: () => void;
+  onSaveProfile: (name: string, mapping: ColumnMapping, locale: LocaleProfile, chargeRules: ChargeRules) => Promise<void>;
+  onDeleteProfile: (name: string) => Promise<void>;
+}
+
+const formatSample = (val: any): string => {
+  if (val instanceof Date) return isNaN(val.getTime()) ? '' : val.toLocaleDateString();
+  return String(val ?? '');
+};
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  fileName,
+  inspection,
+  profiles,
+  onConfirm,
+  onCancel,
+  onSaveProfile,
+  onDeleteProfile
+}) => {
+  const matchedProfile = useMemo(() => findMatchingProfile(profiles, inspection.headers), [profiles, inspection.headers]);
+
+  const [activeProfile, setActiveProfile] = useState<string>(matchedProfile?.name || '');
+  const [mapping, setMapping] = useState<ColumnMapping>(matchedProfile?.mapping || inspection.suggestedMapping);
+  const [locale, setLocale] = useState<LocaleProfile>(() =>
+    matchedProfile?.locale || detectLocale(buildLocaleSamples(inspection.columnSamples, matchedProfile?.mapping || inspection.suggestedMapping))
+  );
+  const [chargeRules, setChargeRules] = useState<ChargeRules>(matchedProfile?.chargeRules || DEFAULT_CHARGE_RULES);
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('mad');
+  const [profileName, setProfileName] = useState(matchedProfile?.name || '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Sheet selection (workbooks only); the first sheet is selected by default
+  const [selectedSheets, setSelectedSheets] = useState<string[]>(inspection.sheets.slice(0, 1).map(s => s.name));
+  const [tagSheets, setTagSheets] = useState(false);
+  const isMultiSheet = inspection.sheets.length > 1;
+
+  const toggleSheet = (name: string) => {
+    setSelectedSheets(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const missing = getMissingRequiredFields(mapping, inspection.headers);
+  const localeWarnings = useMemo(
+    () => checkLocale(buildLocaleSamples(inspection.columnSamples, mapping), locale),
+    [inspection.columnSamples, mapping, locale]
+  );
+
+  const redetectLocale = (forMapping: ColumnMapping) => {
+    setLocale(detectLocale(buildLocaleSamples(inspection.columnSamples, forMapping)));
+  };
+
+  const handleProfileChange = (name: string) => {
+    setActiveProfile(name);
+    const profile = profiles.find(p => p.name === name);
+    const nextMapping = profile ? profile.mapping : inspection.suggestedMapping;
+    setMapping(nextMapping);
+    setProfileName(profile ? profile.name : '');
+    setChargeRules(profile?.chargeRules || DEFAULT_CHARGE_RULES);
+    if (profile?.locale) setLocale(profile.locale);
+    else redetectLocale(nextMapping);
+  };
+
+  const handleFieldChange = (field: MappableField, column: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (column) next[field] = column;
+      else delete next[field];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (!profileName.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSaveProfile(profileName.trim(), mapping, locale, chargeRules);
+      setActiveProfile(profileName.trim());
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2"><Columns className="w-4 h-4 text-purple-500" /> Map Columns</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          {fileName} · {inspection.totalRows.toLocaleString()} rows{isMultiSheet && ` in ${inspection.sheets.length} sheets`} · {inspection.source.format.toUpperCase()}
+          {inspection.source.encoding && ` · ${inspection.source.encoding}`}
+        </p>
+      </div>
+
+      {/* Sheet Selection */}
+      {isMultiSheet && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium text-slate-700 flex items-center gap-2"><Layers className="w-4 h-4 text-slate-400" /> Sheets to import</p>
+          <div className="max-h-40 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {inspection.sheets.map(sheet => (
+              <label key={sheet.name} className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer hover:bg-slate-50">
+                <span className="flex items-center gap-2">
+                  <input type="checkbox" checked={selectedSheets.includes(sheet.name)} onChange={() => toggleSheet(sheet.name)} />
+                  {sheet.name}
+                </span>
+                <span className="text-xs text-slate-400">{sheet.rowCount.toLocaleString()} rows</span>
+              </label>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+            <input type="checkbox" checked={tagSheets} onChange={(e) => setTagSheets(e.target.checked)} />
+            Tag each record with its sheet name
+          </label>
+        </div>
+      )}
+
+      {/* Profile Selection */}
+      <div className="flex items-center gap-2">
+        <select
+          value={activeProfile}
+          onChange={(e) => handleProfileChange(e.target.value)}
+          className="flex-1 bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        >
+          <option value="">Auto-detected columns</option>
+          {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </select>
+        {activeProfile && (
+          <button
+            onClick={async () => {
+              if (!confirm(`Delete mapping profile "${activeProfile}"?`)) return;
+              await onDeleteProfile(activeProfile);
+              handleProfileChange('');
+            }}
+            className="p-2 text-slate-400 hover:text-red-600 transition-colors"
+            title="Delete profile"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+      {matchedProfile && activeProfile === matchedProfile.name && (
+        <p className="text-xs text-green-600 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Matched saved profile "{matchedProfile.name}"</p>
+      )}
+
+      {/* Field Assignment */}
+      <div className="space-y-3">
+        {MAPPABLE_FIELDS.map(def => {
+          const column = mapping[def.field];
+          const samples = column
+            ? inspection.sampleRows.map(r => formatSample(r[column])).filter(Boolean).slice(0, 3)
+            : [];
+          return (
+            <div key={def.field} className="grid grid-cols-2 gap-3 items-start">
+              <label className="text-sm font-medium text-slate-700 pt-2">
+                {def.label}{def.required && <span className="text-red-500 ml-0.5">*</span>}
+              </label>
+              <div>
+                <select
+                  value={column || ''}
+                  onChange={(e) => handleFieldChange(def.field, e.target.value)}
+                  className="w-full bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                >
+                  <option value="">— Not mapped —</option>
+                  {inspection.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+                {samples.length > 0 && (
+                  <p className="text-[11px] text-slate-400 mt-1 truncate">e.g. {samples.join(', ')}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Locale */}
+      <div className="space-y-3 pt-2 border-t border-slate-100">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium text-slate-700 flex items-center gap-2"><Globe className="w-4 h-4 text-slate-400" /> Dates &amp; Numbers</p>
+          <button onClick={() => redetectLocale(mapping)} className="text-xs text-blue-600 hover:underline">Auto-detect</button>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <select
+            value={locale.dateOrder}
+            onChange={(e) => setLocale(prev => ({ ...prev, dateOrder: e.target.value as DateOrder }))}
+            className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 rounded-lg text-xs"
+            title="Date order"
+          >
+            {(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map(order => (
+              <option key={order} value={order}>{DATE_ORDER_LABELS[order]}</option>
+            ))}
+          </select>
+          <select
+            value={locale.decimalSeparator}
+            onChange={(e) => setLocale(prev => ({ ...prev, decimalSeparator: e.target.value as LocaleProfile['decimalSeparator'] }))}
+            className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 rounded-lg text-xs"
+            title="Decimal separator"
+          >
+            <option value=".">Decimal "."</option>
+            <option value=",">Decimal ","</option>
+          </select>
+          <select
+            value={locale.thousandsSeparator}
+            onChange={(e) => setLocale(prev => ({ ...prev, thousandsSeparator: e.target.value as LocaleProfile['thousandsSeparator'] }))}
+            className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 rounded-lg text-xs"
+            title="Thousands separator"
+          >
+            <option value=",">Thousands ","</option>
+            <option value=".">Thousands "."</option>
+            <option value=" ">Thousands space</option>
+            <option value="'">Thousands "'"</option>
+            <option value="">No grouping</option>
+          </select>
+        </div>
+        <input
+          type="text"
+          key={locale.currencySymbols.join(' ')}
+          defaultValue={locale.currencySymbols.join(' ')}
+          onBlur={(e) => setLocale(prev => ({ ...prev, currencySymbols: e.target.value.split(/\s+/).filter(Boolean) }))}
+          placeholder="Currency symbols to strip, e.g. € $ £"
+          className="w-full px-3 py-2 rounded-lg border border-slate-300 text-xs focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        {localeWarnings.map(w => (
+          <p key={w} className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2 flex items-start gap-2">
+            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> {w}
+          </p>
+        ))}
+      </div>
+
+      {/* Charge Rules */}
+      <div className="space-y-3 pt-2 border-t border-slate-100">
+        <p className="text-sm font-medium text-slate-700 flex items-center gap-2"><ReceiptText className="w-4 h-4 text-slate-400" /> Charge Checks</p>
+        <div className="grid grid-cols-2 gap-3 items-center">
+          <label className="text-xs text-slate-600">Zero-charge rows</label>
+          <select
+            value={chargeRules.zero}
+            onChange={(e) => setChargeRules(prev => ({ ...prev, zero: e.target.value as ChargeRuleAction }))}
+            className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 rounded-lg text-xs"
+          >
+            {(['include', 'exclude', 'tag'] as ChargeRuleAction[]).map(a => <option key={a} value={a}>{CHARGE_RULE_LABELS[a]}</option>)}
+          </select>
+          <label className="text-xs text-slate-600">Negative rows (refunds)</label>
+          <select
+            value={chargeRules.negative}
+            onChange={(e) => setChargeRules(prev => ({ ...prev, negative: e.target.value as ChargeRuleAction }))}
+            className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 rounded-lg text-xs"
+          >
+            {(Object.keys(CHARGE_RULE_LABELS) as ChargeRuleAction[]).map(a => <option key={a} value={a}>{CHARGE_RULE_LABELS[a]}</option>)}
+          </select>
+          <label className="text-xs text-slate-600">Flag unusual rates by</label>
+          <select
+            value={outlierMethod}
+            onChange={(e) => setOutlierMethod(e.target.value as OutlierMethod)}
+            className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 rounded-lg text-xs"
+          >
+            {(Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[]).map(m => <option key={m} value={m}>{OUTLIER_METHOD_LABELS[m]}</option>)}
+          </select>
+        </div>
+        {chargeRules.negative === 'net' && !mapping.reservationId && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded-lg px-3 py-2 flex items-start gap-2">
+            <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" /> Netting needs the reservation column; without it refunds are kept as negative rows.
+          </p>
+        )}
+      </div>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-red-600 flex items-center gap-1"><AlertCircle className="w-4 h-4" /> Required: {missing.map(f => f.label).join(', ')}</p>
+      )}
+
+      {/* Save Profile */}
+      <div className="flex items-center gap-2 pt-2 border-t border-slate-100">
+        <input
+          type="text"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name (e.g. Reservation System)"
+          className="flex-1 px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <button
+          onClick={handleSave}
+          disabled={!profileName.trim() || isSaving}
+          className="px-3 py-2 rounded-lg text-sm font-medium bg-white border border-slate-300 hover:border-blue-500 hover:text-blue-600 disabled:opacity-50 flex items-center gap-1"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save
+        </button>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100">Cancel</button>
+        <button
+          onClick={() => onConfirm(mapping, { sheets: selectedSheets, tagSheets, locale, chargeRules, outlierMethod })}
+          disabled={missing.length > 0 || selectedSheets.length === 0}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          Import Data
+        </button>
+      </div>
+    </div>
+  );
+};
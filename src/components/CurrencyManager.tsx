@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Coins, Plus, Trash2, Save, Loader2, Upload } from 'lucide-react';
+import { FxRate, FxSettings } from '../types';
+import { isCurrencyCode, normalizeCurrency, parseRateTable } from '../utils/currency';
+import { decodeText } from '../utils/delimitedText';
+import { normalizeName } from '../utils/aliases';
+
+interface CurrencyManagerProps {
+  fx: FxSettings;
+  stations: string[]; // Stations seen in loaded datasets
+  onSave: (fx: FxSettings) => Promise<void>;
+}
+
+type CurrencyTab = 'rates' | 'stations';
+
+const rateKey = (r: FxRate) => `${r.currency}|${r.month}`;
+
+export const CurrencyManager: React.FC<CurrencyManagerProps> = ({ fx, stations, onSave }) => {
+  const [tab, setTab] = useState<CurrencyTab>('rates');
+  const [draft, setDraft] = useState<FxSettings>(fx);
+  const [newRate, setNewRate] = useState({ month: '', currency: '', rate: '' });
+  const [newStation, setNewStation] = useState({ station: '', currency: '' });
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDraft(fx);
+  }, [fx]);
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(fx);
+  const sortedRates = [...draft.rates].sort((a, b) => b.month.localeCompare(a.month) || a.currency.localeCompare(b.currency));
+  const stationEntries = Object.entries(draft.stationCurrencies).sort(([a], [b]) => a.localeCompare(b));
+
+  // Incoming rates replace existing ones for the same currency and month
+  const mergeRates = (rates: FxRate[]) => {
+    setDraft(prev => {
+      const byKey = new Map(prev.rates.map(r => [rateKey(r), r]));
+      rates.forEach(r => byKey.set(rateKey(r), r));
+      return { ...prev, rates: Array.from(byKey.values()) };
+    });
+  };
+
+  const removeRate = (rate: FxRate) => {
+    setDraft(prev => ({ ...prev, rates: prev.rates.filter(r => rateKey(r) !== rateKey(rate)) }));
+  };
+
+  const handleAddRate = () => {
+    const currency = normalizeCurrency(newRate.currency);
+    const rate = parseFloat(newRate.rate.replace(',', '.'));
+    if (!newRate.month || !currency || !(rate > 0)) return;
+    mergeRates([{ month: newRate.month, currency, rate }]);
+    setNewRate({ month: newRate.month, currency: '', rate: '' });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { text } = decodeText(await file.arrayBuffer());
+    const { rates, invalid } = parseRateTable(text);
+    mergeRates(rates);
+    setImportMessage(`${rates.length} rates imported from ${file.name}${invalid > 0 ? `, ${invalid} rows skipped` : ''}. Save to apply.`);
+  };
+
+  const handleAddStation = () => {
+    const currency = normalizeCurrency(newStation.currency);
+    if (!newStation.station.trim() || !currency) return;
+    setDraft(prev => ({
+      ...prev,
+      stationCurrencies: { ...prev.stationCurrencies, [normalizeName(newStation.station)]: currency }
+    }));
+    setNewStation({ station: '', currency: '' });
+  };
+
+  const removeStation = (station: string) => {
+    setDraft(prev => {
+      const next = { ...prev.stationCurrencies };
+      delete next[station];
+      return { ...prev, stationCurrencies: next };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      setImportMessage(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><Coins className="w-5 h-5 text-green-600" /> Currencies</h2>
+        <div className="flex bg-slate-100 rounded-lg p-1">
+          {(['rates', 'stations'] as CurrencyTab[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${tab === t ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600'}`}
+            >
+              {t === 'rates' ? 'FX Rates' : 'Station Currencies'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 text-sm">
+        <label className="text-slate-600">Base currency</label>
+        <input
+          type="text"
+          value={draft.baseCurrency}
+          maxLength={3}
+          onChange={(e) => setDraft(prev => ({ ...prev, baseCurrency: e.target.value.toUpperCase() }))}
+          className={`w-20 px-2 py-1 rounded border text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none ${isCurrencyCode(draft.baseCurrency) ? 'border-slate-200' : 'border-red-400'}`}
+        />
+        <span className="text-xs text-slate-400">Rates are quoted as base-currency units per unit; charges with no currency information are read in it.</span>
+      </div>
+
+      {tab === 'rates' ? (
+        <>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {sortedRates.length === 0 && <p className="p-3 text-sm text-slate-400 italic">No rates defined.</p>}
+            {sortedRates.map(r => (
+              <div key={rateKey(r)} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-3 items-center px-3 py-2 text-sm">
+                <span className="text-slate-600">{r.month}</span>
+                <span className="font-mono text-slate-700">{r.currency}</span>
+                <span className="text-slate-700">{r.rate}</span>
+                <button onClick={() => removeRate(r)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-3">
+            <input
+              type="month"
+              value={newRate.month}
+              onChange={(e) => setNewRate(prev => ({ ...prev, month: e.target.value }))}
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <input
+              type="text"
+              value={newRate.currency}
+              onChange={(e) => setNewRate(prev => ({ ...prev, currency: e.target.value }))}
+              placeholder="Currency, e.g. GBP"
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <input
+              type="text"
+              value={newRate.rate}
+              onChange={(e) => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+              placeholder={`${draft.baseCurrency} per unit`}
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <button onClick={handleAddRate} className="p-2 rounded-lg border border-slate-300 hover:border-blue-500 hover:text-blue-600"><Plus className="w-4 h-4" /></button>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <input ref={fileInputRef} type="file" accept=".csv,.tsv,.txt" onChange={handleImport} className="hidden" />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-2 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" /> Import CSV
+            </button>
+            <span className="text-xs text-slate-400">{importMessage || 'Columns: month (YYYY-MM), currency, rate'}</span>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+            {stationEntries.length === 0 && <p className="p-3 text-sm text-slate-400 italic">All stations report in {draft.baseCurrency}.</p>}
+            {stationEntries.map(([station, currency]) => (
+              <div key={station} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-center px-3 py-2 text-sm">
+                <span className="text-slate-600 truncate" title={station}>{station}</span>
+                <span className="font-mono text-slate-700">{currency}</span>
+                <button onClick={() => removeStation(station)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-3">
+            <input
+              type="text"
+              list="currency-stations"
+              value={newStation.station}
+              onChange={(e) => setNewStation(prev => ({ ...prev, station: e.target.value }))}
+              placeholder="Station"
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <datalist id="currency-stations">
+              {stations.map(st => <option key={st} value={st} />)}
+            </datalist>
+            <input
+              type="text"
+              value={newStation.currency}
+              onChange={(e) => setNewStation(prev => ({ ...prev, currency: e.target.value }))}
+              placeholder="Currency, e.g. CHF"
+              className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <button onClick={handleAddStation} className="p-2 rounded-lg border border-slate-300 hover:border-blue-500 hover:text-blue-600"><Plus className="w-4 h-4" /></button>
+          </div>
+          <p className="text-xs text-slate-400">Used for rows whose file states no currency. A currency column or symbol in the charge always wins.</p>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={() => setDraft(fx)} disabled={!isDirty} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100 disabled:opacity-50">Reset</button>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving || !isCurrencyCode(draft.baseCurrency)}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50 flex items-center gap-2"
+        >
+          {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />} Save Currencies
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,15 +1,17 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
-import { ProcessedData, DatasetRegistry } from '../types';
+import { ProcessedData, DatasetRegistry, FxSettings, AllocationMethod, ChargeFilter, ChargeType, UserAccount } from '../types';
 import { useComparisonData } from '../hooks/useComparisonData';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
 } from 'recharts';
 import { 
-  ArrowLeft, Table, TrendingUp, Calendar, Sparkles, Euro, ChevronDown, Check,
-  ArrowRightLeft, Loader2
+  ArrowLeft, Table, TrendingUp, Calendar, Sparkles, Banknote, ChevronDown, Check,
+  ArrowRightLeft, Loader2, AlertTriangle, UserRound
 } from 'lucide-react';
 import { generateDataInsights } from '../services/geminiService';
 import ReactMarkdown from 'react-markdown';
+import { convertDataset, formatMoney, knownCurrencies } from '../utils/currency';
+import { CHARGE_TYPE_LABELS } from '../utils/chargeRules';
 
 interface DashboardProps {
   registry: DatasetRegistry;
@@ -17,9 +19,14 @@ interface DashboardProps {
   comparisonYear: number | 'none';
   availableYears: number[];
   loadingYears: Set<number>;
+  user: UserAccount | null;
+  fx: FxSettings;
+  reportingCurrency: string;
+  onSetReportingCurrency: (c: string) => void;
   onSetPrimaryYear: (y: number) => void;
   onSetComparisonYear: (y: number | 'none') => void;
   onLoadYear: (y: number) => Promise<void>;
+  onLoadRecords: (y: number) => Promise<void>; // Swap a year's stats cube for its raw records
   onReset: () => void;
 }
 
@@ -31,9 +38,14 @@ export const Dashboard: React.FC<DashboardProps> = ({
   comparisonYear,
   availableYears,
   loadingYears,
+  user,
+  fx,
+  reportingCurrency,
+  onSetReportingCurrency,
   onSetPrimaryYear,
   onSetComparisonYear,
   onLoadYear,
+  onLoadRecords,
   onReset 
 }) => {
   const [selectedStation, setSelectedStation] = useState<string>('All');
@@ -41,13 +53,41 @@ export const Dashboard: React.FC<DashboardProps> = ({
   const [isGroupDropdownOpen, setIsGroupDropdownOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [selectedDateRange, setSelectedDateRange] = useState<DateRangeType>('All');
+  const [allocation, setAllocation] = useState<AllocationMethod>('checkout');
+  const [chargeFilter, setChargeFilter] = useState<ChargeFilter>('all');
   const [viewMode, setViewMode] = useState<'chart' | 'table'>('chart');
   const [aiInsight, setAiInsight] = useState<string | null>(null);
   const [isGeneratingAi, setIsGeneratingAi] = useState(false);
 
-  // Derived Data
-  const primaryData = registry[primaryYear];
-  const comparisonData = comparisonYear !== 'none' ? registry[comparisonYear] : undefined;
+  // Derived Data, with every charge expressed in the reporting currency
+  const primaryConversion = useMemo(
+    () => convertDataset(registry[primaryYear], fx, reportingCurrency),
+    [registry, primaryYear, fx, reportingCurrency]
+  );
+  const comparisonConversion = useMemo(
+    () => comparisonYear !== 'none' && registry[comparisonYear]
+      ? convertDataset(registry[comparisonYear], fx, reportingCurrency)
+      : undefined,
+    [registry, comparisonYear, fx, reportingCurrency]
+  );
+  const primaryData = primaryConversion.data;
+  const comparisonData = comparisonConversion?.data;
+
+  // Prorating also needs the years before the ones shown, for rentals running over New Year
+  const carryInYears = useMemo(
+    () => (allocation === 'prorated' ? [primaryYear - 1, comparisonYear === 'none' ? null : comparisonYear - 1] : [])
+      .filter((y): y is number => y !== null && availableYears.includes(y)),
+    [allocation, primaryYear, comparisonYear, availableYears]
+  );
+  const carryInData = useMemo(() => {
+    const converted: Record<number, ProcessedData> = {};
+    carryInYears.forEach(y => {
+      if (registry[y] && !registry[y].aggregated) converted[y] = convertDataset(registry[y], fx, reportingCurrency).data;
+    });
+    return converted;
+  }, [carryInYears, registry, fx, reportingCurrency]);
+  const missingRates = [...primaryConversion.missing, ...(comparisonConversion?.missing || [])];
+  const currencyOptions = useMemo(() => knownCurrencies(fx, Object.values(registry)), [fx, registry]);
 
   // Comparison Hook
   const { alignedMonths, totals } = useComparisonData(
@@ -55,7 +95,35 @@ export const Dashboard: React.FC<DashboardProps> = ({
     comparisonData,
     selectedStation,
     selectedGroups,
-    selectedDateRange
+    selectedDateRange,
+    allocation,
+    chargeFilter,
+    carryInData[primaryYear - 1],
+    comparisonYear === 'none' ? undefined : carryInData[comparisonYear - 1]
+  );
+
+  // Charge types present in the loaded years; the filter only shows when there are any
+  const chargeTypes = useMemo(() => {
+    const types = new Set<ChargeType>();
+    [primaryData, comparisonData].forEach(d => d?.records.forEach(r => { if (r.chargeType) types.add(r.chargeType); }));
+    return Array.from(types).sort();
+  }, [primaryData, comparisonData]);
+
+  // Prorating spreads single rentals over their days, which the stats cube cannot do
+  useEffect(() => {
+    if (allocation !== 'prorated') return;
+    [primaryYear, comparisonYear].forEach(y => {
+      if (y !== 'none' && registry[y]?.aggregated) onLoadRecords(y);
+    });
+    carryInYears.forEach(y => {
+      if (!registry[y] || registry[y].aggregated) onLoadRecords(y);
+    });
+  }, [allocation, primaryYear, comparisonYear, carryInYears, registry]);
+
+  // Prorating falls back to the billed days for rentals without a return date
+  const missingReturnDates = useMemo(
+    () => allocation === 'prorated' && !primaryData.aggregated ? primaryData.records.filter(r => !r.returnDate).length : 0,
+    [primaryData, allocation]
   );
 
   // Group handling
@@ -120,7 +188,8 @@ export const Dashboard: React.FC<DashboardProps> = ({
     setSelectedGroups(newSelection);
   };
 
-  const formatCurrency = (val: number) => `€${val.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+  const formatCurrency = (val: number) => formatMoney(val, reportingCurrency);
+  const formatRate = (val: number) => formatMoney(val, reportingCurrency, 2);
   const formatPct = (val: number | null) => {
     if (val === null) return null;
     return `${(val * 100).toFixed(1)}%`;
@@ -198,16 +267,47 @@ export const Dashboard: React.FC<DashboardProps> = ({
             </div>
           </div>
           
-          <div className="flex items-center gap-2">
+          <div className="flex items-center gap-4">
+            <div className="flex flex-col">
+              <label className="text-[10px] uppercase font-bold text-slate-400 leading-none">Currency</label>
+              <select
+                value={reportingCurrency}
+                onChange={(e) => onSetReportingCurrency(e.target.value)}
+                className="font-medium text-sm text-slate-600 bg-transparent focus:outline-none cursor-pointer"
+              >
+                {currencyOptions.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
             <span className="text-xs font-semibold text-blue-600 bg-blue-50 px-3 py-1 rounded-full border border-blue-100">
                {primaryData.totalRecords.toLocaleString()} Records ({primaryYear})
             </span>
+            {user && (
+              <span
+                className="flex items-center gap-1.5 text-sm text-slate-600"
+                title={`Signed in as ${user.username} (${user.role})${user.allStations === false ? `, limited to ${user.stations?.join(', ') || 'no stations'}` : ''}`}
+              >
+                <UserRound className="w-4 h-4 text-slate-400" /> {user.username}
+              </span>
+            )}
           </div>
         </div>
       </header>
 
       <main className={`max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6 transition-opacity duration-300 ${isSyncing ? 'opacity-70 pointer-events-none' : 'opacity-100'}`}>
         
+        {missingRates.length > 0 && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800 flex items-start gap-3">
+            <AlertTriangle className="w-5 h-5 shrink-0 mt-0.5" />
+            <div>
+              <p className="font-semibold">{missingRates.reduce((acc, m) => acc + m.count, 0).toLocaleString()} records are excluded for lack of an FX rate into {reportingCurrency}.</p>
+              <p className="text-amber-700">
+                Missing: {missingRates.slice(0, 6).map(m => `${m.currency} ${m.month}`).join(', ')}
+                {missingRates.length > 6 ? ` and ${missingRates.length - 6} more` : ''}. Add the rates in the management console.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Filters */}
         <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col md:flex-row gap-4 justify-between items-center">
           <div className="flex flex-col md:flex-row gap-4 w-full md:w-auto">
@@ -218,7 +318,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 onChange={(e) => setSelectedStation(e.target.value)}
                 className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium w-full md:w-48"
               >
-                <option value="All">All Stations</option>
+                <option value="All">{user?.allStations === false ? 'All My Stations' : 'All Stations'}</option>
                 {primaryData.stations.map(st => <option key={st} value={st}>{st}</option>)}
               </select>
             </div>
@@ -270,6 +370,37 @@ export const Dashboard: React.FC<DashboardProps> = ({
                 <option value="21-End">21st - End</option>
               </select>
             </div>
+
+            <div className="flex flex-col gap-1">
+              <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Allocation</label>
+              <select 
+                value={allocation}
+                onChange={(e) => setAllocation(e.target.value as AllocationMethod)}
+                title={missingReturnDates > 0 ? `${missingReturnDates.toLocaleString()} records have no return date; their billed days are assumed consecutive` : undefined}
+                className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium w-full md:w-48"
+              >
+                <option value="checkout">By check-out date</option>
+                <option value="prorated">Prorated by calendar day</option>
+              </select>
+              {missingReturnDates > 0 && (
+                <span className="text-[10px] text-amber-600">{missingReturnDates.toLocaleString()} without return date</span>
+              )}
+            </div>
+
+            {chargeTypes.length > 0 && (
+              <div className="flex flex-col gap-1">
+                <label className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Charges</label>
+                <select 
+                  value={chargeFilter}
+                  onChange={(e) => setChargeFilter(e.target.value as ChargeFilter)}
+                  className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-medium w-full md:w-48"
+                >
+                  <option value="all">All rows</option>
+                  <option value="regular">Regular charges only</option>
+                  {chargeTypes.map(t => <option key={t} value={t}>{CHARGE_TYPE_LABELS[t]}</option>)}
+                </select>
+              </div>
+            )}
           </div>
 
           <div className="flex bg-slate-100 rounded-lg p-1">
@@ -300,7 +431,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     <BarChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
                       <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
                       <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 10 }} />
-                      <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} tickFormatter={(val) => `€${val}`} />
+                      <YAxis axisLine={false} tickLine={false} tick={{ fill: '#64748b', fontSize: 12 }} tickFormatter={(val) => formatCurrency(val)} />
                       <Tooltip 
                         cursor={{ fill: '#f8fafc' }}
                         contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
@@ -320,7 +451,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                           return [
                             num == null || Number.isNaN(num)
                             ? "No Data"
-                            : `€${num.toFixed(2)}`,
+                            : formatRate(num),
                             label,
                           ];
                         }}
@@ -355,10 +486,10 @@ export const Dashboard: React.FC<DashboardProps> = ({
                          return (
                           <tr key={row.monthIndex} className="hover:bg-slate-50">
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-slate-900">{row.monthName}</td>
-                            <td className="px-6 py-4 text-sm font-bold text-blue-600 text-right">{row.primary.hasData ? `€${row.primary.rate.toFixed(2)}` : '—'}</td>
+                            <td className="px-6 py-4 text-sm font-bold text-blue-600 text-right">{row.primary.hasData ? formatRate(row.primary.rate) : '—'}</td>
                             {isComparisonActive && (
                               <>
-                                <td className="px-6 py-4 text-sm text-slate-400 text-right">{row.comparison.hasData ? `€${row.comparison.rate.toFixed(2)}` : '—'}</td>
+                                <td className="px-6 py-4 text-sm text-slate-400 text-right">{row.comparison.hasData ? formatRate(row.comparison.rate) : '—'}</td>
                                 <td className="px-6 py-4 text-sm text-right">{getVarianceBadge(row.variance.rate)}</td>
                               </>
                             )}
@@ -382,7 +513,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
               <div className="space-y-4">
                 <div className="flex items-center justify-between p-4 bg-slate-50 rounded-xl">
                   <div className="flex items-center gap-3">
-                    <div className="p-2 bg-green-100 rounded-lg text-green-600"><Euro className="w-5 h-5" /></div>
+                    <div className="p-2 bg-green-100 rounded-lg text-green-600"><Banknote className="w-5 h-5" /></div>
                     <div>
                       <p className="text-xs text-slate-500">Total Revenue</p>
                       <div className="flex items-center">
@@ -412,7 +543,7 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     <div>
                       <p className="text-xs text-slate-500">Avg Rate</p>
                       <div className="flex items-center">
-                        <p className="text-lg font-bold text-slate-900">€{totals.primary.rate.toFixed(2)}</p>
+                        <p className="text-lg font-bold text-slate-900">{formatRate(totals.primary.rate)}</p>
                         {isComparisonActive && getVarianceBadge(totals.variance.rate)}
                       </div>
                     </div>
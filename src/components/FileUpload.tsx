@@ -1,20 +1,31 @@
 import React, { useCallback } from 'react';
 import { FileSpreadsheet, Loader2, AlertCircle } from 'lucide-react';
-import { UploadStatus } from '../types';
+import { UploadStatus, ParseProgress } from '../types';
 
 interface FileUploadProps {
   onFileUpload: (file: File) => void;
   status: UploadStatus;
   error?: string;
+  progress?: ParseProgress;
+  onCancel?: () => void;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, status, error }) => {
+const PHASE_LABELS: Record<ParseProgress['phase'], string> = {
+  reading: 'Reading file...',
+  parsing: 'Parsing rows...',
+  hashing: 'Computing checksum...',
+};
+
+// Workbooks plus the delimited text exports of the reservation system
+const ACCEPTED_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.tsv', '.txt'];
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, status, error, progress, onCancel }) => {
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     if (status === 'parsing') return;
     
     const file = e.dataTransfer.files[0];
-    if (file && (file.name.endsWith('.xlsx') || file.name.endsWith('.xls'))) {
+    if (file && ACCEPTED_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext))) {
       onFileUpload(file);
     }
   }, [onFileUpload, status]);
@@ -48,21 +59,41 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, status, er
           
           <div className="space-y-2">
             <h2 className="text-2xl font-bold text-slate-800">
-              {status === 'parsing' ? 'Processing large dataset...' : 'Upload your Excel File'}
+              {status === 'parsing' ? 'Processing large dataset...' : 'Upload your Excel or CSV File'}
             </h2>
             <p className="text-slate-500">
               {status === 'parsing' 
-                ? 'Please wait while we crunch the numbers (approx. 58k rows).' 
+                ? (progress ? PHASE_LABELS[progress.phase] : 'Please wait while we read the file.')
                 : 'Drag & drop or click to browse'}
             </p>
           </div>
 
+          {status === 'parsing' && progress && progress.totalRows > 0 && (
+            <div className="w-full space-y-2">
+              <div className="w-full h-2 bg-blue-100 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-600 transition-all duration-200" style={{ width: `${progress.percent}%` }} />
+              </div>
+              <p className="text-xs text-slate-500">
+                {progress.rowsParsed.toLocaleString()} parsed · {progress.rowsRejected.toLocaleString()} rejected · {progress.totalRows.toLocaleString()} rows ({progress.percent}%)
+              </p>
+            </div>
+          )}
+
+          {status === 'parsing' && onCancel && (
+            <button
+              onClick={onCancel}
+              className="pointer-events-auto px-6 py-2 rounded-xl text-sm font-medium bg-white border border-slate-300 text-slate-600 hover:border-red-400 hover:text-red-600 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+
           {status !== 'parsing' && (
             <label className="pointer-events-auto px-8 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-xl transition-colors shadow-lg shadow-blue-200 cursor-pointer">
               Browse Files
               <input 
                 type="file" 
-                accept=".xlsx, .xls" 
+                accept={ACCEPTED_EXTENSIONS.join(', ')} 
                 className="hidden" 
                 onChange={handleChange}
               />
@@ -0,0 +1,106 @@
+import React, { useMemo } from 'react';
+import { CheckCircle2, AlertTriangle, Download } from 'lucide-react';
+import { ImportSummary, RejectionReason } from '../types';
+import { toCsv, downloadFile } from '../utils/csvExport';
+
+interface ImportReportProps {
+  summary: ImportSummary;
+  onDismiss: () => void;
+}
+
+const REASON_LABELS: Record<RejectionReason, string> = {
+  missing_columns: 'Sheet missing required columns',
+  missing_station: 'Missing station',
+  invalid_date: 'Unparseable check-out date',
+  invalid_days: 'Days missing or not positive',
+  zero_charge: 'Zero charge (excluded by rule)',
+  negative_charge: 'Negative charge (excluded by rule)',
+};
+
+export const ImportReport: React.FC<ImportReportProps> = ({ summary, onDismiss }) => {
+  const { fileName, totalRows, importedRows, rejections, chargeCounts, outlierCounts, duplicatesRemoved, deltas = {} } = summary;
+
+  const countsByReason = useMemo(() => {
+    const counts: Partial<Record<RejectionReason, number>> = {};
+    rejections.forEach(r => {
+      counts[r.reason] = (counts[r.reason] || 0) + 1;
+    });
+    return Object.entries(counts) as [RejectionReason, number][];
+  }, [rejections]);
+
+  const handleDownload = () => {
+    // Original columns after the report columns, in first-seen order
+    const valueColumns = new Set<string>();
+    rejections.forEach(r => Object.keys(r.values).forEach(k => valueColumns.add(k)));
+    const rows = rejections.map(r => ({
+      'Row': r.row,
+      'Sheet': r.sheet || '',
+      'Reason': REASON_LABELS[r.reason],
+      ...r.values
+    }));
+    const csv = toCsv(['Row', 'Sheet', 'Reason', ...Array.from(valueColumns)], rows);
+    downloadFile(`${fileName.replace(/\.[^.]+$/, '')}_rejected_rows.csv`, csv);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-slate-50 rounded-xl border border-slate-200 space-y-3">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-2">
+          {rejections.length === 0
+            ? <CheckCircle2 className="w-5 h-5 text-green-500" />
+            : <AlertTriangle className="w-5 h-5 text-amber-500" />}
+          <div>
+            <p className="text-sm font-semibold text-slate-800">{fileName}</p>
+            <p className="text-xs text-slate-500">
+              {importedRows.toLocaleString()} of {totalRows.toLocaleString()} rows imported
+              {rejections.length > 0 && `, ${rejections.length.toLocaleString()} rejected`}
+            </p>
+            {chargeCounts && (chargeCounts.zero > 0 || chargeCounts.negative > 0) && (
+              <p className="text-xs text-slate-500">
+                {chargeCounts.zero.toLocaleString()} zero and {chargeCounts.negative.toLocaleString()} negative charges
+                {chargeCounts.tagged > 0 && ` · ${chargeCounts.tagged.toLocaleString()} tagged complimentary`}
+                {chargeCounts.netted > 0 && ` · ${chargeCounts.netted.toLocaleString()} refunds netted`}
+                {chargeCounts.unmatched > 0 && ` · ${chargeCounts.unmatched.toLocaleString()} refunds without a matching reservation`}
+              </p>
+            )}
+            {outlierCounts && outlierCounts.flagged > 0 && (
+              <p className="text-xs text-slate-500">
+                {outlierCounts.flagged.toLocaleString()} unusual rates: {outlierCounts.accepted.toLocaleString()} accepted, {outlierCounts.corrected.toLocaleString()} corrected, {outlierCounts.excluded.toLocaleString()} excluded
+              </p>
+            )}
+            {!!duplicatesRemoved && (
+              <p className="text-xs text-slate-500">{duplicatesRemoved.toLocaleString()} duplicate records removed</p>
+            )}
+            {Object.entries(deltas).map(([year, d]) => (
+              <p key={year} className="text-xs text-slate-500">
+                {year} {d.from} – {d.to}: {d.unchanged
+                  ? 'already up to date'
+                  : `${d.added.toLocaleString()} added, ${d.replaced.toLocaleString()} replaced, ${d.removed.toLocaleString()} removed (version ${d.version})`}
+              </p>
+            ))}
+          </div>
+        </div>
+        <button onClick={onDismiss} className="text-xs text-slate-400 hover:text-slate-600">Dismiss</button>
+      </div>
+
+      {countsByReason.length > 0 && (
+        <>
+          <ul className="text-sm space-y-1">
+            {countsByReason.map(([reason, count]) => (
+              <li key={reason} className="flex justify-between">
+                <span className="text-slate-600">{REASON_LABELS[reason]}</span>
+                <span className="font-medium text-slate-800">{count.toLocaleString()}</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleDownload}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-white border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" /> Download rejected rows
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import React, { useState, useMemo } from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { ProcessedData, OutlierFlag, OutlierAction, OutlierDecision } from '../types';
+import { suggestCorrection } from '../utils/outliers';
+
+interface OutlierReviewProps {
+  data: ProcessedData;
+  outliers: OutlierFlag[];
+  onConfirm: (decisions: Record<number, OutlierDecision>) => void;
+  onDiscard: () => void;
+}
+
+const ACTION_LABELS: Record<OutlierAction, string> = {
+  accept: 'Accept',
+  exclude: 'Exclude',
+  correct: 'Correct charge',
+};
+
+export const OutlierReview: React.FC<OutlierReviewProps> = ({ data, outliers, onConfirm, onDiscard }) => {
+  const recordsById = useMemo(() => new Map(data.records.map(r => [r.id, r])), [data]);
+
+  // Rows with an obvious decimal slip start out corrected; everything else starts accepted
+  const [decisions, setDecisions] = useState<Record<number, OutlierDecision>>(() => {
+    const initial: Record<number, OutlierDecision> = {};
+    outliers.forEach(f => {
+      const record = recordsById.get(f.recordId);
+      const suggestion = record ? suggestCorrection(record, f) : null;
+      initial[f.recordId] = suggestion !== null ? { action: 'correct', charge: suggestion } : { action: 'accept' };
+    });
+    return initial;
+  });
+
+  const setDecision = (id: number, decision: OutlierDecision) => {
+    setDecisions(prev => ({ ...prev, [id]: decision }));
+  };
+
+  const setAll = (action: OutlierAction) => {
+    setDecisions(prev => {
+      const next: Record<number, OutlierDecision> = {};
+      outliers.forEach(f => { next[f.recordId] = { ...prev[f.recordId], action }; });
+      return next;
+    });
+  };
+
+  const hasInvalidCorrection = Object.values(decisions).some(d => d.action === 'correct' && !(d.charge && d.charge > 0));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2"><ShieldAlert className="w-4 h-4 text-amber-500" /> Unusual Rates</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          {outliers.length.toLocaleString()} rows have a rate per day far from comparable rentals. Review them before the data is stored.
+        </p>
+      </div>
+
+      <div className="flex gap-2 text-xs">
+        <span className="text-slate-400">Set all:</span>
+        {(Object.keys(ACTION_LABELS) as OutlierAction[]).filter(a => a !== 'correct').map(a => (
+          <button key={a} onClick={() => setAll(a)} className="text-blue-600 hover:underline">{ACTION_LABELS[a]}</button>
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto custom-scrollbar divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {outliers.map(flag => {
+          const record = recordsById.get(flag.recordId);
+          if (!record) return null;
+          const decision = decisions[flag.recordId];
+          return (
+            <div key={flag.recordId} className="px-3 py-2 space-y-1">
+              <div className="flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-slate-800 truncate">
+                    {record.station} · {record.group} · {record.date.toLocaleDateString()}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {record.charge.toLocaleString()} for {record.days} days = <span className="font-semibold text-amber-700">{flag.rate.toFixed(2)}/day</span>
+                    {' '}· typical {flag.median.toFixed(2)} ({flag.low.toFixed(2)}–{flag.high.toFixed(2)}) in {flag.scope}
+                  </p>
+                </div>
+                <select
+                  value={decision.action}
+                  onChange={(e) => {
+                    const action = e.target.value as OutlierAction;
+                    setDecision(flag.recordId, action === 'correct'
+                      ? { action, charge: decision.charge ?? suggestCorrection(record, flag) ?? record.charge }
+                      : { ...decision, action });
+                  }}
+                  className="bg-slate-50 border border-slate-200 text-slate-700 py-1.5 pl-2 pr-6 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm shrink-0"
+                >
+                  {(Object.keys(ACTION_LABELS) as OutlierAction[]).map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+                </select>
+              </div>
+              {decision.action === 'correct' && (
+                <div className="flex items-center gap-2 text-xs text-slate-600">
+                  <label>Charge</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={decision.charge ?? ''}
+                    onChange={(e) => setDecision(flag.recordId, { action: 'correct', charge: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                    className="w-28 px-2 py-1 rounded border border-slate-200 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  {decision.charge && decision.charge > 0 && (
+                    <span className="text-slate-400">= {(decision.charge / record.days).toFixed(2)}/day</span>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onDiscard} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100">Discard</button>
+        <button
+          onClick={() => onConfirm(decisions)}
+          disabled={hasInvalidCorrection}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
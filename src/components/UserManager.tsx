@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Users, Plus, Trash2, KeyRound, Loader2, MapPin, X } from 'lucide-react';
+import { StationAccess, UserAccount, UserChanges, UserRole } from '../types';
+
+interface UserManagerProps {
+  users: UserAccount[];
+  currentUser: string;
+  stationNames: string[]; // Known canonical station names, offered when limiting a viewer
+  onCreate: (username: string, password: string, role: UserRole, access: StationAccess) => Promise<void>;
+  onUpdate: (username: string, changes: UserChanges) => Promise<void>;
+  onDelete: (username: string) => Promise<void>;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  uploader: 'Uploader',
+  admin: 'Admin',
+};
+
+const ROLE_HINTS: Record<UserRole, string> = {
+  viewer: 'Views dashboards',
+  uploader: 'Also imports and publishes data',
+  admin: 'Also manages years, settings and users',
+};
+
+const MIN_PASSWORD_LENGTH = 8;
+const ALL_STATIONS: StationAccess = { allStations: true, stations: [] };
+
+const describeAccess = (u: UserAccount) => {
+  if (u.allStations !== false) return 'all stations';
+  return u.stations?.length ? u.stations.join(', ') : 'no stations';
+};
+
+// "All stations", or a list of stations to add to and remove from
+const StationAccessEditor: React.FC<{ access: StationAccess; onChange: (access: StationAccess) => void }> = ({ access, onChange }) => {
+  const [newStation, setNewStation] = useState('');
+
+  const addStation = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (!access.stations.some(st => st.toLowerCase() === trimmed.toLowerCase())) {
+      onChange({ ...access, stations: [...access.stations, trimmed] });
+    }
+    setNewStation('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-slate-600">
+        <input
+          type="checkbox"
+          checked={access.allStations}
+          onChange={(e) => onChange({ ...access, allStations: e.target.checked })}
+          className="rounded border-slate-300"
+        />
+        All stations
+      </label>
+      {!access.allStations && (
+        <>
+          <p className="text-xs text-slate-500">
+            {access.stations.length === 0 ? 'Sees no station until you add some.' : 'Sees only these stations:'}
+          </p>
+          {access.stations.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {access.stations.map(st => (
+                <span key={st} className="flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-white border border-slate-200 text-slate-700">
+                  {st}
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...access, stations: access.stations.filter(x => x !== st) })}
+                    className="text-slate-400 hover:text-red-600"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <input
+              list="user-station-names"
+              value={newStation}
+              onChange={(e) => setNewStation(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addStation(newStation);
+                }
+              }}
+              placeholder="Station"
+              className="flex-1 px-3 py-1.5 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => addStation(newStation)}
+              disabled={!newStation.trim()}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export const UserManager: React.FC<UserManagerProps> = ({ users, currentUser, stationNames, onCreate, onUpdate, onDelete }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [access, setAccess] = useState<StationAccess>(ALL_STATIONS);
+  const [isCreating, setIsCreating] = useState(false);
+  const [busyUser, setBusyUser] = useState<string | null>(null);
+  // Viewer whose station access is being edited, with the unsaved access
+  const [stationDraft, setStationDraft] = useState<{ username: string; access: StationAccess } | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      await onCreate(username.trim(), password, role, role === 'viewer' ? access : ALL_STATIONS);
+      setUsername('');
+      setPassword('');
+      setRole('viewer');
+      setAccess(ALL_STATIONS);
+    } catch {
+      // The caller reports the failure; keep the form for another try
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const withBusy = async (name: string, task: () => Promise<void>) => {
+    setBusyUser(name);
+    try {
+      await task();
+    } finally {
+      setBusyUser(null);
+    }
+  };
+
+  const handleResetPassword = (name: string) => {
+    const next = prompt(`New password for ${name} (at least ${MIN_PASSWORD_LENGTH} characters):`);
+    if (next === null) return;
+    if (next.length < MIN_PASSWORD_LENGTH) {
+      alert(`Password must be at least ${MIN_PASSWORD_LENGTH} characters.`);
+      return;
+    }
+    withBusy(name, () => onUpdate(name, { password: next }));
+  };
+
+  const handleSaveStations = async () => {
+    if (!stationDraft) return;
+    await withBusy(stationDraft.username, () => onUpdate(stationDraft.username, stationDraft.access));
+    setStationDraft(null);
+  };
+
+  const handleDelete = (name: string) => {
+    if (!confirm(`Delete the account ${name}?`)) return;
+    withBusy(name, () => onDelete(name));
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2"><Users className="w-5 h-5 text-teal-500" /> Users</h2>
+
+      {users.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">
+          No accounts yet. You are signed in with the bootstrap password; create an admin account and sign in with it.
+        </p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {users.map(u => (
+            <div key={u.username} className="px-3 py-2 text-sm space-y-2">
+              <div className="grid grid-cols-[1fr_auto_auto_auto_auto] gap-3 items-center">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-700 truncate">
+                    {u.username}
+                    {u.username === currentUser && <span className="ml-2 text-xs text-slate-400">you</span>}
+                  </p>
+                  <p className="text-xs text-slate-400 truncate">
+                    {ROLE_HINTS[u.role]}
+                    {u.role === 'viewer' && ` · ${describeAccess(u)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => setStationDraft(stationDraft?.username === u.username ? null : {
+                    username: u.username,
+                    access: { allStations: u.allStations !== false, stations: u.stations || [] }
+                  })}
+                  disabled={busyUser !== null || u.role !== 'viewer'}
+                  title={u.role === 'viewer' ? 'Limit to stations' : 'Only viewers can be limited to stations'}
+                  className={`p-2 rounded-lg hover:bg-slate-100 hover:text-blue-600 disabled:opacity-30 ${stationDraft?.username === u.username ? 'text-blue-600' : 'text-slate-500'}`}
+                >
+                  <MapPin className="w-4 h-4" />
+                </button>
+                <select
+                  value={u.role}
+                  onChange={(e) => withBusy(u.username, () => onUpdate(u.username, { role: e.target.value as UserRole }))}
+                  disabled={busyUser !== null}
+                  className="bg-slate-50 border border-slate-200 text-slate-700 py-1.5 pl-2 pr-6 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm disabled:opacity-50"
+                >
+                  {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+                </select>
+                <button
+                  onClick={() => handleResetPassword(u.username)}
+                  disabled={busyUser !== null}
+                  title="Set a new password"
+                  className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-blue-600 disabled:opacity-50"
+                >
+                  {busyUser === u.username ? <Loader2 className="w-4 h-4 animate-spin" /> : <KeyRound className="w-4 h-4" />}
+                </button>
+                <button
+                  onClick={() => handleDelete(u.username)}
+                  disabled={busyUser !== null || u.username === currentUser}
+                  title={u.username === currentUser ? 'You cannot delete your own account' : 'Delete account'}
+                  className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 hover:text-red-600 disabled:opacity-30"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+
+              {stationDraft?.username === u.username && (
+                <div className="bg-slate-50 rounded-lg p-3 space-y-2">
+                  <StationAccessEditor
+                    access={stationDraft.access}
+                    onChange={(next) => setStationDraft(prev => prev && { ...prev, access: next })}
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleSaveStations}
+                      disabled={busyUser !== null}
+                      className="px-3 py-1.5 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <datalist id="user-station-names">
+        {stationNames.map(st => <option key={st} value={st} />)}
+      </datalist>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto_auto] gap-3">
+        <input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="off"
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder={`Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+          autoComplete="new-password"
+          className="px-3 py-2 rounded-lg border border-slate-300 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-2 pr-6 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        >
+          {(Object.keys(ROLE_LABELS) as UserRole[]).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}
+        </select>
+        <button
+          type="submit"
+          disabled={isCreating || !username.trim() || password.length < MIN_PASSWORD_LENGTH}
+          className="px-4 py-2 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />} Add User
+        </button>
+        {role === 'viewer' && (
+          <div className="md:col-span-4 bg-slate-50 rounded-lg p-3">
+            <StationAccessEditor access={access} onChange={setAccess} />
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
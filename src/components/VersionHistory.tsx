@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import { History, Loader2, GitCompare, RotateCcw } from 'lucide-react';
+import { AppMetadata, DatasetVersion, VersionDiff } from '../types';
+
+interface VersionHistoryProps {
+  metadata: AppMetadata | null;
+  onActivate?: (year: number, version: number) => Promise<void>; // Omitted for accounts that may not roll back
+  onDiff: (year: number, from: number, to: number) => Promise<VersionDiff>;
+}
+
+const formatDelta = (val: number, digits = 0) => {
+  const text = val.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return val > 0 ? `+${text}` : text;
+};
+
+const deltaColor = (val: number) => val > 0 ? 'text-green-600' : val < 0 ? 'text-red-600' : 'text-slate-400';
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({ metadata, onActivate, onDiff }) => {
+  const years = Object.entries(metadata?.years || {})
+    .filter(([, m]) => m.hash)
+    .map(([y]) => parseInt(y))
+    .sort((a, b) => b - a);
+
+  const [year, setYear] = useState<number | null>(years[0] ?? null);
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [activating, setActivating] = useState<number | null>(null);
+
+  const yearMeta = year !== null ? metadata?.years?.[String(year)] : undefined;
+  // Newest first; older metadata only knows its active version
+  const versions: DatasetVersion[] = yearMeta
+    ? [...(yearMeta.history || (yearMeta.hash ? [{
+        version: yearMeta.version, hash: yearMeta.hash, rows: yearMeta.rowCount ?? null,
+        uploadedAt: yearMeta.lastUpdated ?? null, uploadedBy: null, mode: 'replace' as const
+      }] : []))].reverse()
+    : [];
+
+  useEffect(() => {
+    if (year === null && years.length > 0) setYear(years[0]);
+  }, [years[0], year]);
+
+  // Default comparison: the version before the active one against the active one
+  useEffect(() => {
+    setDiff(null);
+    if (!yearMeta || versions.length < 2) {
+      setCompare(null);
+      return;
+    }
+    const previous = versions.find(v => v.version < yearMeta.version) || versions[versions.length - 1];
+    setCompare({ from: previous.version, to: yearMeta.version });
+  }, [year, yearMeta?.version, versions.length]);
+
+  const handleActivate = async (version: number) => {
+    if (year === null || !onActivate || !confirm(`Make version ${version} the active ${year} dataset?`)) return;
+    setActivating(version);
+    try {
+      await onActivate(year, version);
+      setDiff(null);
+    } finally {
+      setActivating(null);
+    }
+  };
+
+  const handleCompare = async () => {
+    if (year === null || !compare) return;
+    setIsComparing(true);
+    try {
+      setDiff(await onDiff(year, compare.from, compare.to));
+    } catch {
+      setDiff(null); // The caller reports the failure
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><History className="w-5 h-5 text-indigo-500" /> Version History</h2>
+        {years.length > 0 && (
+          <div className="flex bg-slate-100 rounded-lg p-1">
+            {years.map(y => (
+              <button
+                key={y}
+                onClick={() => setYear(y)}
+                className={`px-4 py-1.5 rounded-md text-sm font-medium transition-all ${year === y ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-600'}`}
+              >
+                {y}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-slate-400 italic">No datasets uploaded yet.</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg divide-y divide-slate-100">
+          {versions.map(v => {
+            const isActive = v.version === yearMeta?.version;
+            return (
+              <div key={v.version} className="grid grid-cols-[auto_1fr_auto] gap-3 items-center px-3 py-2 text-sm">
+                <span className="font-mono font-semibold text-slate-700">v{v.version}</span>
+                <div className="min-w-0">
+                  <p className="text-slate-700 truncate">
+                    {v.rows !== null ? `${v.rows.toLocaleString()} rows` : 'Row count unknown'}
+                    {v.mode === 'append' && <span className="ml-2 text-xs text-slate-400">append</span>}
+                  </p>
+                  <p className="text-xs text-slate-400 truncate" title={v.hash}>
+                    {v.uploadedAt ? new Date(v.uploadedAt).toLocaleString() : 'Date unknown'}
+                    {v.uploadedBy && ` · ${v.uploadedBy}`} · {v.hash.slice(0, 12)}
+                  </p>
+                </div>
+                {isActive ? (
+                  <span className="px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-700">Active</span>
+                ) : onActivate ? (
+                  <button
+                    onClick={() => handleActivate(v.version)}
+                    disabled={activating !== null}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-1 disabled:opacity-50"
+                  >
+                    {activating === v.version ? <Loader2 className="w-3 h-3 animate-spin" /> : <RotateCcw className="w-3 h-3" />} Activate
+                  </button>
+                ) : <span />}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {yearMeta?.activatedAt && (
+        <p className="text-xs text-slate-400">
+          Version {yearMeta.version} reactivated {new Date(yearMeta.activatedAt).toLocaleString()}{yearMeta.activatedBy && ` by ${yearMeta.activatedBy}`}.
+        </p>
+      )}
+
+      {compare && (
+        <div className="flex items-center gap-3 text-sm">
+          <label className="text-slate-600">Compare</label>
+          {(['from', 'to'] as const).map(side => (
+            <select
+              key={side}
+              value={compare[side]}
+              onChange={(e) => {
+                setCompare(prev => prev && { ...prev, [side]: parseInt(e.target.value) });
+                setDiff(null);
+              }}
+              className="bg-slate-50 border border-slate-200 text-slate-700 py-1.5 pl-2 pr-6 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              {versions.map(v => <option key={v.version} value={v.version}>v{v.version}</option>)}
+            </select>
+          ))}
+          <button
+            onClick={handleCompare}
+            disabled={isComparing || compare.from === compare.to}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium border border-slate-300 hover:border-blue-500 hover:text-blue-600 flex items-center gap-2 disabled:opacity-50"
+          >
+            {isComparing ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />} Diff
+          </button>
+        </div>
+      )}
+
+      {diff && (
+        <div className="space-y-3">
+          <p className="text-sm text-slate-600">
+            v{diff.from} → v{diff.to}:{' '}
+            <span className="text-green-600 font-medium">{diff.added.toLocaleString()} added</span>,{' '}
+            <span className="text-red-600 font-medium">{diff.removed.toLocaleString()} removed</span>,{' '}
+            {diff.unchanged.toLocaleString()} unchanged rows
+          </p>
+          {diff.months.length > 0 && (
+            <div className="max-h-64 overflow-y-auto custom-scrollbar border border-slate-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="bg-slate-50 text-xs text-slate-500 sticky top-0">
+                  <tr>
+                    <th className="text-left font-medium px-3 py-2">Month</th>
+                    <th className="text-right font-medium px-3 py-2">Revenue v{diff.from}</th>
+                    <th className="text-right font-medium px-3 py-2">Revenue v{diff.to}</th>
+                    <th className="text-right font-medium px-3 py-2">Δ Revenue</th>
+                    <th className="text-right font-medium px-3 py-2">Δ Days</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {diff.months.map(m => (
+                    <tr key={m.month}>
+                      <td className="px-3 py-1.5 text-slate-600">{m.month}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-600">{m.revenueFrom.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                      <td className="px-3 py-1.5 text-right text-slate-600">{m.revenueTo.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                      <td className={`px-3 py-1.5 text-right font-medium ${deltaColor(m.revenueTo - m.revenueFrom)}`}>{formatDelta(m.revenueTo - m.revenueFrom)}</td>
+                      <td className={`px-3 py-1.5 text-right font-medium ${deltaColor(m.daysTo - m.daysFrom)}`}>{formatDelta(m.daysTo - m.daysFrom, 1)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-slate-400">Revenue is summed in each row's original currency.</p>
+        </div>
+      )}
+    </div>
+  );
+};
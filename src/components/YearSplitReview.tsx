@@ -0,0 +1,178 @@
+import React, { useState, useMemo } from 'react';
+import { CalendarRange, Copy, Loader2 } from 'lucide-react';
+import { ProcessedData, SliceAction, DuplicateConfig, DuplicateKeyField, DuplicateStrategy } from '../types';
+import { DEFAULT_DUPLICATE_CONFIG, COMPOSITE_FIELD_LABELS, STRATEGY_LABELS, analyseDuplicates } from '../utils/duplicates';
+
+interface YearSplitReviewProps {
+  slices: ProcessedData[];
+  activeYears: Set<number>;   // Years with a published cloud dataset
+  uploadableYears: number[];  // Years the server accepts uploads for
+  cloudSnapshots: Record<number, ProcessedData>; // Active cloud datasets, once downloaded
+  isLoadingSnapshots: boolean;
+  onApply: (decisions: Record<number, SliceAction>, duplicateConfig: DuplicateConfig) => void;
+  onDiscard: () => void;
+}
+
+const ACTION_LABELS: Record<SliceAction, string> = {
+  replace: 'Upload as this year',
+  merge: 'Merge into existing year',
+  append: 'Append as delta (replaces overlapping dates)',
+  local: 'Keep locally only',
+  skip: 'Skip',
+};
+
+export const YearSplitReview: React.FC<YearSplitReviewProps> = ({
+  slices,
+  activeYears,
+  uploadableYears,
+  cloudSnapshots,
+  isLoadingSnapshots,
+  onApply,
+  onDiscard
+}) => {
+  const [duplicateConfig, setDuplicateConfig] = useState<DuplicateConfig>(DEFAULT_DUPLICATE_CONFIG);
+  const [decisions, setDecisions] = useState<Record<number, SliceAction>>(() => {
+    const initial: Record<number, SliceAction> = {};
+    slices.forEach(s => {
+      initial[s.year] = uploadableYears.includes(s.year) ? 'replace' : 'local';
+    });
+    return initial;
+  });
+
+  const totalRecords = slices.reduce((acc, s) => acc + s.totalRecords, 0);
+  const hasReservationIds = useMemo(() => slices.some(s => s.records.some(r => r.reservationId)), [slices]);
+
+  const duplicateReports = useMemo(() => {
+    const reports: Record<number, ReturnType<typeof analyseDuplicates>> = {};
+    slices.forEach(s => {
+      reports[s.year] = analyseDuplicates(s.records, cloudSnapshots[s.year]?.records || [], duplicateConfig);
+    });
+    return reports;
+  }, [slices, cloudSnapshots, duplicateConfig]);
+
+  // Check-out days each slice covers; an appended delta replaces this range in the cloud
+  const dayRanges = useMemo(() => {
+    const ranges: Record<number, { from: string; to: string }> = {};
+    slices.forEach(s => {
+      let min = Infinity;
+      let max = -Infinity;
+      s.records.forEach(r => {
+        const t = r.date.getTime();
+        if (t < min) min = t;
+        if (t > max) max = t;
+      });
+      ranges[s.year] = { from: new Date(min).toLocaleDateString(), to: new Date(max).toLocaleDateString() };
+    });
+    return ranges;
+  }, [slices]);
+
+  const toggleCompositeField = (field: DuplicateKeyField) => {
+    setDuplicateConfig(prev => {
+      const has = prev.compositeFields.includes(field);
+      const compositeFields = has ? prev.compositeFields.filter(f => f !== field) : [...prev.compositeFields, field];
+      return compositeFields.length > 0 ? { ...prev, compositeFields } : prev;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold text-slate-800 flex items-center gap-2"><CalendarRange className="w-4 h-4 text-purple-500" /> Records by Year</h3>
+        <p className="text-xs text-slate-500 mt-1">
+          {slices.length > 1
+            ? `This file spans ${slices.length} calendar years. Choose what to do with each slice.`
+            : 'Choose what to do with the imported records.'}
+        </p>
+      </div>
+
+      <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+        {slices.map(slice => {
+          const canUpload = uploadableYears.includes(slice.year);
+          const actions: SliceAction[] = [
+            ...(canUpload ? ['replace' as SliceAction] : []),
+            ...(canUpload && activeYears.has(slice.year) ? ['merge' as SliceAction, 'append' as SliceAction] : []),
+            'local',
+            'skip'
+          ];
+          return (
+            <div key={slice.year} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div>
+                <p className="text-sm font-medium text-slate-800">{slice.year}</p>
+                <p className="text-xs text-slate-500">
+                  {slice.totalRecords.toLocaleString()} records · {((slice.totalRecords / Math.max(totalRecords, 1)) * 100).toFixed(1)}%
+                  {activeYears.has(slice.year) && ' · cloud dataset exists'}
+                </p>
+                {!canUpload && (
+                  <p className="text-xs text-slate-400">Open {slice.year} under Cloud Datasets to publish it</p>
+                )}
+                {decisions[slice.year] === 'append' && (
+                  <p className="text-xs text-blue-600">
+                    Cloud records from {dayRanges[slice.year].from} to {dayRanges[slice.year].to} will be replaced
+                  </p>
+                )}
+                {(duplicateReports[slice.year].withinFile > 0 || duplicateReports[slice.year].againstExisting > 0) && (
+                  <p className="text-xs text-amber-700">
+                    {duplicateReports[slice.year].withinFile.toLocaleString()} duplicates in file
+                    {cloudSnapshots[slice.year] && ` · ${duplicateReports[slice.year].againstExisting.toLocaleString()} already in cloud`}
+                  </p>
+                )}
+              </div>
+              <select
+                value={decisions[slice.year]}
+                onChange={(e) => setDecisions(prev => ({ ...prev, [slice.year]: e.target.value as SliceAction }))}
+                className="bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              >
+                {actions.map(a => <option key={a} value={a}>{ACTION_LABELS[a]}</option>)}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Duplicate Handling */}
+      <div className="space-y-2 pt-2 border-t border-slate-100">
+        <p className="text-sm font-medium text-slate-700 flex items-center gap-2">
+          <Copy className="w-4 h-4 text-slate-400" /> Duplicates
+          {isLoadingSnapshots && <Loader2 className="w-3 h-3 text-blue-500 animate-spin" />}
+        </p>
+        {hasReservationIds && (
+          <label className="flex items-center gap-2 text-xs text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={duplicateConfig.useReservationId}
+              onChange={(e) => setDuplicateConfig(prev => ({ ...prev, useReservationId: e.target.checked }))}
+            />
+            Match on reservation ID when present
+          </label>
+        )}
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-slate-600">
+          <span className="text-slate-400">Otherwise match on:</span>
+          {(Object.keys(COMPOSITE_FIELD_LABELS) as DuplicateKeyField[]).map(field => (
+            <label key={field} className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={duplicateConfig.compositeFields.includes(field)} onChange={() => toggleCompositeField(field)} />
+              {COMPOSITE_FIELD_LABELS[field]}
+            </label>
+          ))}
+        </div>
+        <select
+          value={duplicateConfig.strategy}
+          onChange={(e) => setDuplicateConfig(prev => ({ ...prev, strategy: e.target.value as DuplicateStrategy }))}
+          className="w-full bg-slate-50 border border-slate-200 text-slate-700 py-2 pl-3 pr-8 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+        >
+          {(Object.keys(STRATEGY_LABELS) as DuplicateStrategy[]).map(st => <option key={st} value={st}>{STRATEGY_LABELS[st]}</option>)}
+        </select>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onDiscard} className="px-4 py-2 rounded-lg text-sm font-medium text-slate-600 hover:bg-slate-100">Discard</button>
+        <button
+          onClick={() => onApply(decisions, duplicateConfig)}
+          disabled={Object.values(decisions).every(a => a === 'skip')}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,82 +1,161 @@
 import { useMemo } from 'react';
-import { ProcessedData, RentalRecord, ComparisonResult, AlignedMonth, MetricSet, VarianceSet } from '../types';
+import { ProcessedData, RentalRecord, ComparisonResult, AlignedMonth, MetricSet, VarianceSet, AllocationMethod, ChargeFilter } from '../types';
+import { forEachRentalDay } from '../utils/allocation';
 
 type DateRangeType = 'All' | '1-10' | '11-20' | '21-End';
 
+// The dashboard's selection; 'All' selects every station or group
+export interface ComparisonFilter {
+  selectedStation: string;
+  selectedGroups: string[];
+  selectedDateRange: DateRangeType;
+  allocation: AllocationMethod;
+  chargeFilter: ChargeFilter;
+}
+
 const MONTH_NAMES = [
   'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'
 ];
 
-export const useComparisonData = (
-  primaryData: ProcessedData | undefined,
-  comparisonData: ProcessedData | undefined,
-  selectedStation: string,
-  selectedGroups: string[],
-  selectedDateRange: DateRangeType
-): ComparisonResult => {
+// Metrics of one year's dataset by month index (0-11), for the records the filter selects
+export const aggregateYear = (
+  data: ProcessedData | undefined,
+  { selectedStation, selectedGroups, selectedDateRange, allocation, chargeFilter }: ComparisonFilter,
+  prevYear?: ProcessedData
+): Record<number, MetricSet> => {
+  const months: Record<number, MetricSet> = {};
+
+  // Init months 0-11
+  for (let i = 0; i < 12; i++) {
+    months[i] = { revenue: 0, days: 0, count: 0, rate: 0, hasData: false };
+  }
+
+  if (!data) return months;
+
+  // Normalize Selection Keys
+  const targetStationKey = selectedStation === 'All' ? null : selectedStation.toLowerCase().trim();
+  const targetGroupKeys = selectedGroups.includes('All') 
+    ? null 
+    : new Set(selectedGroups.map(g => g.toLowerCase().trim()));
+
+  const isInDateRange = (day: number) => {
+    if (selectedDateRange === '1-10') return day >= 1 && day <= 10;
+    if (selectedDateRange === '11-20') return day >= 11 && day <= 20;
+    if (selectedDateRange === '21-End') return day >= 21;
+    return true;
+  };
 
-  // Helper to process a single year's data
-  const processYear = (data: ProcessedData | undefined): Record<number, MetricSet> => {
-    const months: Record<number, MetricSet> = {};
+  const isSelected = (r: RentalRecord) => {
+    // 1. Filter Station
+    if (targetStationKey && r.stationKey !== targetStationKey) return false;
+    
+    // 2. Filter Group
+    if (targetGroupKeys && !targetGroupKeys.has(r.groupKey)) return false;
 
-    // Init months 0-11
-    for (let i = 0; i < 12; i++) {
-      months[i] = { revenue: 0, days: 0, count: 0, rate: 0, hasData: false };
-    }
+    // Charge type (zero, negative, complimentary rows kept by the import rules)
+    if (chargeFilter === 'regular' && r.chargeType) return false;
+    if (chargeFilter !== 'all' && chargeFilter !== 'regular' && r.chargeType !== chargeFilter) return false;
+    return true;
+  };
 
-    if (!data) return months;
-
-    // Normalize Selection Keys
-    const targetStationKey = selectedStation === 'All' ? null : selectedStation.toLowerCase().trim();
-    const targetGroupKeys = selectedGroups.includes('All') 
-      ? null 
-      : new Set(selectedGroups.map(g => g.toLowerCase().trim()));
-
-    data.records.forEach(r => {
-      // 1. Filter Station
-      if (targetStationKey && r.stationKey !== targetStationKey) return;
-      
-      // 2. Filter Group
-      if (targetGroupKeys && !targetGroupKeys.has(r.groupKey)) return;
-
-      // 3. Filter Date Range
-      if (selectedDateRange === '1-10' && (r.day < 1 || r.day > 10)) return;
-      if (selectedDateRange === '11-20' && (r.day < 11 || r.day > 20)) return;
-      if (selectedDateRange === '21-End' && r.day < 21) return;
-
-      // Aggregate
-      const mIndex = r.date.getMonth();
-      const m = months[mIndex];
-
-      m.revenue += r.charge;
-      m.days += r.days;
-      m.count += 1;
+  // Each day on rent counts towards its own month and period. Days falling
+  // outside the dataset's year belong to another year's view and are left out.
+  const prorate = (r: RentalRecord) => {
+    let lastMonth = -1;
+    forEachRentalDay(r, (year, month, day, days, charge) => {
+      if (year !== data.year || !isInDateRange(day)) return;
+      const m = months[month];
+      m.revenue += charge;
+      m.days += days;
+      if (month !== lastMonth) m.count += r.count ?? 1;
       m.hasData = true;
+      lastMonth = month;
     });
+  };
 
-    // Calculate Rates
-    for (let i = 0; i < 12; i++) {
-      if (months[i].days > 0) {
-        months[i].rate = months[i].revenue / months[i].days;
-      }
+  // A stats cube has no return dates; it counts by check-out until the records arrive
+  const isProrated = allocation === 'prorated' && !data.aggregated;
+
+  data.records.forEach(r => {
+    if (!isSelected(r)) return;
+
+    if (isProrated) {
+      prorate(r);
+      return;
     }
 
-    return months;
-  };
+    // 3. Filter Date Range
+    if (!isInDateRange(r.day)) return;
+
+    // Aggregate
+    const mIndex = r.date.getMonth();
+    const m = months[mIndex];
 
-  const primaryMetrics = useMemo(() => processYear(primaryData), [primaryData, selectedStation, selectedGroups, selectedDateRange]);
-  const comparisonMetrics = useMemo(() => processYear(comparisonData), [comparisonData, selectedStation, selectedGroups, selectedDateRange]);
+    m.revenue += r.charge;
+    m.days += r.days;
+    m.count += r.count ?? 1; // Stats cube cells stand for several rentals
+    m.hasData = true;
+  });
 
-  const calcVariance = (p: number, c: number, pHasData: boolean, cHasData: boolean): number | null => {
-    if (!cHasData) return null; // No baseline
-    if (c === 0) {
-      if (pHasData && p === 0) return 0; // 0 vs 0 -> 0%
-      return null; // X vs 0 -> Undefined (Infinity)
+  // Rentals checked out in the previous year that were still out in January
+  if (isProrated && prevYear && !prevYear.aggregated && prevYear.year === data.year - 1) {
+    prevYear.records.forEach(r => {
+      if (isSelected(r)) prorate(r);
+    });
+  }
+
+  // Calculate Rates
+  for (let i = 0; i < 12; i++) {
+    if (months[i].days > 0) {
+      months[i].rate = months[i].revenue / months[i].days;
     }
-    if (!pHasData) return null; // Comparison exists, but Primary is missing/future
-    
-    return (p - c) / c;
-  };
+  }
+
+  return months;
+};
+
+// Change of a metric against the comparison year; null without a baseline or when undefined
+export const calcVariance = (p: number, c: number, pHasData: boolean, cHasData: boolean): number | null => {
+  if (!cHasData) return null; // No baseline
+  if (c === 0) {
+    if (pHasData && p === 0) return 0; // 0 vs 0 -> 0%
+    return null; // X vs 0 -> Undefined (Infinity)
+  }
+  if (!pHasData) return null; // Comparison exists, but Primary is missing/future
+  
+  return (p - c) / c;
+};
+
+// Grand total over the months with data
+export const sumMetrics = (metrics: Record<number, MetricSet>): MetricSet => {
+  const acc = { revenue: 0, days: 0, count: 0, rate: 0, hasData: false };
+  Object.values(metrics).forEach(m => {
+    if (m.hasData) {
+      acc.revenue += m.revenue;
+      acc.days += m.days;
+      acc.count += m.count;
+      acc.hasData = true;
+    }
+  });
+  if (acc.days > 0) acc.rate = acc.revenue / acc.days;
+  return acc;
+};
+
+export const useComparisonData = (
+  primaryData: ProcessedData | undefined,
+  comparisonData: ProcessedData | undefined,
+  selectedStation: string,
+  selectedGroups: string[],
+  selectedDateRange: DateRangeType,
+  allocation: AllocationMethod = 'checkout',
+  chargeFilter: ChargeFilter = 'all',
+  primaryPrevYear?: ProcessedData, // The years before, whose late rentals run on into the ones shown
+  comparisonPrevYear?: ProcessedData
+): ComparisonResult => {
+
+  const filter: ComparisonFilter = { selectedStation, selectedGroups, selectedDateRange, allocation, chargeFilter };
+  const primaryMetrics = useMemo(() => aggregateYear(primaryData, filter, primaryPrevYear), [primaryData, primaryPrevYear, selectedStation, selectedGroups, selectedDateRange, allocation, chargeFilter]);
+  const comparisonMetrics = useMemo(() => aggregateYear(comparisonData, filter, comparisonPrevYear), [comparisonData, comparisonPrevYear, selectedStation, selectedGroups, selectedDateRange, allocation, chargeFilter]);
 
   // Combine
   const alignedMonths: AlignedMonth[] = useMemo(() => {
@@ -104,22 +183,8 @@ export const useComparisonData = (
 
   // Grand Totals
   const totals = useMemo(() => {
-    const sum = (metrics: Record<number, MetricSet>): MetricSet => {
-      const acc = { revenue: 0, days: 0, count: 0, rate: 0, hasData: false };
-      Object.values(metrics).forEach(m => {
-        if (m.hasData) {
-          acc.revenue += m.revenue;
-          acc.days += m.days;
-          acc.count += m.count;
-          acc.hasData = true;
-        }
-      });
-      if (acc.days > 0) acc.rate = acc.revenue / acc.days;
-      return acc;
-    };
-
-    const pTotal = sum(primaryMetrics);
-    const cTotal = sum(comparisonMetrics);
+    const pTotal = sumMetrics(primaryMetrics);
+    const cTotal = sumMetrics(comparisonMetrics);
 
     return {
       primary: pTotal,
@@ -1,4 +1,6 @@
-import { AppMetadata, ProcessedData, RentalRecord } from "../types";
+import { AppMetadata, ProcessedData, RentalRecord, MappingProfile, ColumnMapping, LocaleProfile, AliasDictionary, FxSettings, UploadMode, DeltaReport, ChargeRules, VersionDiff, StatsCube, UserAccount, UserRole, UserChanges, StationAccess, AuditFilter, AuditPage } from "../types";
+import { buildProcessedData, hydrateRecord, expandStatsCube } from "../utils/datasetUtils";
+import { applyAliases, EMPTY_ALIASES } from "../utils/aliases";
 
 // Helper to get CSRF token from cookie
 const getCsrfToken = () => {
@@ -13,8 +15,17 @@ const headers = () => ({
   'X-XSRF-TOKEN': getCsrfToken() || ''
 });
 
+// Query string for the set filter fields
+const auditQuery = (filter: AuditFilter, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams(extra);
+  Object.entries(filter).forEach(([key, val]) => {
+    if (val) params.set(key, val);
+  });
+  return params.toString();
+};
+
 export const api = {
-  checkAuth: async (): Promise<{ isAuthenticated: boolean; metadata?: AppMetadata }> => {
+  checkAuth: async (): Promise<{ isAuthenticated: boolean; metadata?: AppMetadata; user?: UserAccount }> => {
     try {
       const res = await fetch('/api/config');
       
@@ -26,20 +37,20 @@ export const api = {
 
       if (res.status === 401) return { isAuthenticated: false };
       
-      const data = await res.json();
-      return { isAuthenticated: true, metadata: data };
+      const { user, ...metadata } = await res.json();
+      return { isAuthenticated: true, metadata, user };
     } catch (e) {
       console.error("Auth check failed:", e);
       return { isAuthenticated: false };
     }
   },
 
-  login: async (password: string): Promise<boolean> => {
+  login: async (username: string, password: string): Promise<boolean> => {
     try {
       const res = await fetch('/api/auth/login', {
         method: 'POST',
         headers: headers(),
-        body: JSON.stringify({ password })
+        body: JSON.stringify({ username, password })
       });
       
       if (!res.ok) return false;
@@ -70,17 +81,22 @@ export const api = {
     year: number, 
     records: any[], 
     hash: string, 
-    onProgress: (msg: string) => void
-  ): Promise<void> => {
+    onProgress: (msg: string) => void,
+    mode: UploadMode = 'replace'
+  ): Promise<DeltaReport | undefined> => {
     // 1. Init Upload
     onProgress('Initiating secure upload...');
     const initRes = await fetch('/api/upload/init', {
       method: 'POST',
       headers: headers(),
-      body: JSON.stringify({ year: String(year), type: 'records', hash })
+      body: JSON.stringify({ year: String(year), type: 'records', hash, mode })
     });
 
-    if (!initRes.ok) throw new Error('Upload initialization failed');
+    if (!initRes.ok) {
+      // e.g. the year is not open for uploads
+      const { error } = await initRes.json().catch(() => ({ error: undefined }));
+      throw new Error(error || 'Upload initialization failed');
+    }
     const { signedUrl, status } = await initRes.json();
 
     if (status === 'exists') {
@@ -103,14 +119,185 @@ export const api = {
     const finalRes = await fetch('/api/upload/finalize', {
       method: 'POST',
       headers: headers(),
-      body: JSON.stringify({ year: String(year), type: 'records', hash })
+      body: JSON.stringify({ year: String(year), type: 'records', hash, mode })
     });
 
-    if (!finalRes.ok) throw new Error('Finalization failed');
+    if (!finalRes.ok) {
+      // The server verifies the stored file and explains why it was rejected
+      const { error } = await finalRes.json().catch(() => ({ error: undefined }));
+      throw new Error(error || 'Finalization failed');
+    }
     onProgress('Success!');
+    // Append mode reports how the delta changed the year
+    const { delta } = await finalRes.json();
+    return delta;
+  },
+
+  getMappingProfiles: async (): Promise<MappingProfile[]> => {
+    const res = await fetch('/api/mapping-profiles', { headers: headers() });
+    if (!res.ok) throw new Error('Failed to fetch mapping profiles');
+    const { profiles } = await res.json();
+    return profiles;
+  },
+
+  saveMappingProfile: async (
+    name: string,
+    mapping: ColumnMapping,
+    locale: LocaleProfile,
+    chargeRules: ChargeRules,
+    fileHeaders: string[]
+  ): Promise<MappingProfile> => {
+    const res = await fetch(`/api/mapping-profiles/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      headers: headers(),
+      body: JSON.stringify({ mapping, locale, chargeRules, headers: fileHeaders })
+    });
+    if (!res.ok) throw new Error('Failed to save mapping profile');
+    const { profile } = await res.json();
+    return profile;
+  },
+
+  deleteMappingProfile: async (name: string): Promise<void> => {
+    const res = await fetch(`/api/mapping-profiles/${encodeURIComponent(name)}`, {
+      method: 'DELETE',
+      headers: headers()
+    });
+    if (!res.ok) throw new Error('Failed to delete mapping profile');
+  },
+
+  getAliases: async (): Promise<AliasDictionary> => {
+    const res = await fetch('/api/aliases', { headers: headers() });
+    if (!res.ok) throw new Error('Failed to fetch aliases');
+    return res.json();
+  },
+
+  saveAliases: async (aliases: AliasDictionary): Promise<AliasDictionary> => {
+    const res = await fetch('/api/aliases', {
+      method: 'PUT',
+      headers: headers(),
+      body: JSON.stringify({ stations: aliases.stations, groups: aliases.groups })
+    });
+    if (!res.ok) throw new Error('Failed to save aliases');
+    return res.json();
+  },
+
+  getFxSettings: async (): Promise<FxSettings> => {
+    const res = await fetch('/api/fx-rates', { headers: headers() });
+    if (!res.ok) throw new Error('Failed to fetch FX rates');
+    return res.json();
+  },
+
+  saveFxSettings: async (fx: FxSettings): Promise<FxSettings> => {
+    const res = await fetch('/api/fx-rates', {
+      method: 'PUT',
+      headers: headers(),
+      body: JSON.stringify({ baseCurrency: fx.baseCurrency, rates: fx.rates, stationCurrencies: fx.stationCurrencies })
+    });
+    if (!res.ok) throw new Error('Failed to save FX rates');
+    return res.json();
+  },
+
+  openYear: async (year: number): Promise<AppMetadata> => {
+    const res = await fetch('/api/years', {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ year })
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: undefined }));
+      throw new Error(error || 'Failed to open year');
+    }
+    const { metadata } = await res.json();
+    return metadata;
+  },
+
+  getUsers: async (): Promise<UserAccount[]> => {
+    const res = await fetch('/api/users');
+    if (!res.ok) throw new Error('Failed to fetch users');
+    const { users } = await res.json();
+    return users;
+  },
+
+  createUser: async (username: string, password: string, role: UserRole, access: StationAccess): Promise<UserAccount[]> => {
+    const res = await fetch('/api/users', {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ username, password, role, ...access })
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: undefined }));
+      throw new Error(error || 'Failed to create user');
+    }
+    const { users } = await res.json();
+    return users;
+  },
+
+  // Change any of role, station access and password
+  updateUser: async (username: string, changes: UserChanges): Promise<UserAccount[]> => {
+    const res = await fetch(`/api/users/${encodeURIComponent(username)}`, {
+      method: 'PUT',
+      headers: headers(),
+      body: JSON.stringify(changes)
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: undefined }));
+      throw new Error(error || 'Failed to update user');
+    }
+    const { users } = await res.json();
+    return users;
+  },
+
+  deleteUser: async (username: string): Promise<UserAccount[]> => {
+    const res = await fetch(`/api/users/${encodeURIComponent(username)}`, {
+      method: 'DELETE',
+      headers: headers()
+    });
+    if (!res.ok) {
+      const { error } = await res.json().catch(() => ({ error: undefined }));
+      throw new Error(error || 'Failed to delete user');
+    }
+    const { users } = await res.json();
+    return users;
+  },
+
+  getAuditLog: async (filter: AuditFilter): Promise<AuditPage> => {
+    const res = await fetch(`/api/audit?${auditQuery(filter)}`);
+    if (!res.ok) throw new Error('Failed to fetch audit log');
+    return res.json();
+  },
+
+  // Download link for the same filter; the session cookie authenticates it
+  auditExportUrl: (filter: AuditFilter): string => `/api/audit?${auditQuery(filter, { format: 'csv', limit: '5000' })}`,
+
+  activateVersion: async (year: number, version: number): Promise<AppMetadata> => {
+    const res = await fetch(`/api/years/${year}/versions/${version}/activate`, {
+      method: 'POST',
+      headers: headers()
+    });
+    if (!res.ok) throw new Error('Failed to activate version');
+    const { metadata } = await res.json();
+    return metadata;
+  },
+
+  diffVersions: async (year: number, from: number, to: number): Promise<VersionDiff> => {
+    const res = await fetch(`/api/years/${year}/diff?from=${from}&to=${to}`, { headers: headers() });
+    if (!res.ok) throw new Error('Failed to compare versions');
+    return res.json();
+  },
+
+  // Summed cube of the active version; enough for every dashboard view except prorating
+  fetchYearStats: async (year: string, aliases: AliasDictionary = EMPTY_ALIASES): Promise<ProcessedData> => {
+    const res = await fetch(`/api/years/${year}/stats`, { headers: headers() });
+    if (!res.ok) throw new Error('Failed to fetch stats link');
+    const { url } = await res.json();
+
+    const cubeRes = await fetch(url);
+    if (!cubeRes.ok) throw new Error('Failed to download stats');
+    const cube: StatsCube = await cubeRes.json();
+    return buildProcessedData(applyAliases(expandStatsCube(cube), aliases), parseInt(year));
   },
 
-  fetchYearData: async (year: string): Promise<ProcessedData> => {
+  fetchYearData: async (year: string, aliases: AliasDictionary = EMPTY_ALIASES): Promise<ProcessedData> => {
     // 1. Get Read Signed URL
     const res = await fetch(`/api/years/${year}/records`, { headers: headers() });
     if (!res.ok) throw new Error('Failed to fetch data link');
@@ -122,20 +309,13 @@ export const api = {
     
     // 3. Reconstruct ProcessedData (lightweight calc)
     // IMPORTANT: Polyfill stationKey/groupKey for older datasets that might lack them
-    const recordsWithDates: RentalRecord[] = records.map((r: any) => ({
+    const recordsWithDates: RentalRecord[] = records.map((r: any) => hydrateRecord({
       ...r,
-      date: new Date(r.date),
       stationKey: r.stationKey || (r.station ? r.station.toLowerCase().trim() : ''),
       groupKey: r.groupKey || (r.group ? r.group.toLowerCase().trim() : '')
     }));
 
-    return {
-      records: recordsWithDates,
-      stations: Array.from(new Set(recordsWithDates.map((r) => r.station))).sort(),
-      groups: Array.from(new Set(recordsWithDates.map((r) => r.group))).sort(),
-      months: Array.from(new Set(recordsWithDates.map((r) => r.monthKey))).sort(),
-      totalRecords: recordsWithDates.length,
-      year: parseInt(year)
-    };
+    // Older uploads predate newer aliases, so canonical names are applied on read too
+    return buildProcessedData(applyAliases(recordsWithDates, aliases), parseInt(year));
   }
 };
\ No newline at end of file
@@ -4,7 +4,8 @@ import { MonthlyAggregation } from "../types";
 export const generateDataInsights = async (
   monthlyData: MonthlyAggregation[],
   stationName: string,
-  groupName: string
+  groupName: string,
+  currency = 'EUR'
 ): Promise<string> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -18,7 +19,7 @@ export const generateDataInsights = async (
 
   // Prepare string summary of monthly performance
   const monthSummary = activeMonths.map(m => 
-    `- ${m.displayDate}: Avg Rate €${m.avgRate.toFixed(2)} (Rev: €${Math.round(m.totalRevenue)}, Days: ${m.totalDays})`
+    `- ${m.displayDate}: Avg Rate ${m.avgRate.toFixed(2)} ${currency} (Rev: ${Math.round(m.totalRevenue)} ${currency}, Days: ${m.totalDays})`
   ).join("\n");
 
   const prompt = `
@@ -28,9 +29,9 @@ export const generateDataInsights = async (
     - Car Group: ${groupName}
 
     Global Stats for this selection:
-    - Total Revenue: €${totalRev.toFixed(2)}
+    - Total Revenue: ${totalRev.toFixed(2)} ${currency}
     - Total Rental Days: ${totalDays}
-    - Overall Average Daily Rate: €${overallAvg.toFixed(2)}
+    - Overall Average Daily Rate: ${overallAvg.toFixed(2)} ${currency}
 
     Monthly Breakdown:
     ${monthSummary}
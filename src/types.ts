@@ -10,8 +10,17 @@ export interface RentalRecord {
   day: number; // 1-31
   days: number;
   charge: number;
+  currency?: string; // ISO code of the charge when the source states it; see recordCurrency
+  chargeType?: ChargeType; // Set on zero, negative and complimentary rows kept by the charge rules
   // For uniqueness across years
   year: number; 
+  sheet?: string; // Source sheet, when merged sheets are tagged
+  // Optional details, present when the source file maps them
+  returnDate?: Date;     // Check-in date
+  returnStation?: string;
+  reservationId?: string; // Reservation / agreement number
+  bookingDate?: Date;    // When the reservation was made
+  count?: number; // Rentals summed into this row when it is a stats cube cell
 }
 
 export interface MetricSet {
@@ -45,6 +54,9 @@ export interface ComparisonResult {
   };
 }
 
+// 'checkout' books a rental in its check-out month; 'prorated' spreads it over the days on rent
+export type AllocationMethod = 'checkout' | 'prorated';
+
 export interface MonthlyAggregation {
   monthKey: string;
   displayDate: string;
@@ -61,36 +73,333 @@ export interface ProcessedData {
   months: string[]; // Sorted unique month keys
   totalRecords: number;
   year: number;
+  aggregated?: boolean; // Records are stats cube cells; views that need single rentals load the raw records
+}
+
+// One cell of a year's stats cube: every rental of a station, group and month
+// that checked out in the same day-of-month period
+export interface StatsCell {
+  station: string;
+  group: string;
+  month: string;  // YYYY-MM
+  period: 1 | 11 | 21; // First day of the period
+  chargeType?: ChargeType;
+  currency?: string;
+  revenue: number;
+  days: number;
+  count: number;
+}
+
+export interface StatsCube {
+  year: number;
+  hash: string; // Records the cube was built from
+  rows: number;
+  cells: StatsCell[];
 }
 
 export type DatasetRegistry = Record<number, ProcessedData>;
 
+// One stored upload of a year; versions are never deleted, only (re)activated
+export interface DatasetVersion {
+  version: number;
+  hash: string;
+  rows: number | null;       // Unknown for uploads made before history was kept
+  path?: string;             // Stored records object
+  statsPath?: string;        // Stats cube built at finalize
+  uploadedAt: string | null;
+  uploadedBy: string | null;
+  mode: UploadMode;
+}
+
 export interface YearMetadata {
   status: 'active' | 'pending' | 'missing';
-  version: number;
-  rowCount: number;
+  version: number; // Active version
+  rowCount?: number; // Left out for viewers limited to stations
   lastUpdated?: string;
   recordsPath?: string;
-  statsPath?: string;
+  statsPath?: string; // Stats cube of the active version
   hash?: string;
+  history?: DatasetVersion[]; // Oldest first
+  activatedAt?: string;       // Set when an earlier version was reactivated
+  activatedBy?: string | null;
+}
+
+export interface MonthDelta {
+  month: string; // YYYY-MM
+  revenueFrom: number;
+  revenueTo: number;
+  daysFrom: number;
+  daysTo: number;
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  added: number;     // Rows only in the `to` version
+  removed: number;   // Rows only in the `from` version
+  unchanged: number;
+  addedSample: any[];   // First few raw records of each side
+  removedSample: any[];
+  months: MonthDelta[];
 }
 
 export interface AppMetadata {
-  years: Record<string, YearMetadata>;
+  years: Record<string, YearMetadata>; // Opened years, including those without data yet
   lastUpdated: string;
+  yearBounds?: { min: number; max: number }; // Years the server lets an admin open
+}
+
+// Each role may do everything the ones before it can
+export type UserRole = 'viewer' | 'uploader' | 'admin';
+
+export interface UserAccount {
+  username: string;
+  role: UserRole;
+  allStations?: boolean;      // False for viewers limited to `stations`
+  stations?: string[] | null; // Canonical station names a limited viewer sees; none when empty
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// What a viewer may see: every station, or only the listed ones
+export interface StationAccess {
+  allStations: boolean;
+  stations: string[];
+}
+
+export type UserChanges = Partial<StationAccess> & { role?: UserRole; password?: string };
+
+export type AuditOutcome = 'success' | 'failure' | 'rejected';
+
+export interface AuditEntry {
+  timestamp: string;
+  user: string | null;
+  action: string; // e.g. login, finalize_upload, activate_version
+  year: string | null;
+  hash: string | null;
+  ip: string;
+  outcome: AuditOutcome;
+  details?: Record<string, unknown>;
+}
+
+// Returned by the audit endpoint
+export interface AuditPage {
+  entries: AuditEntry[]; // Newest first
+  truncated: boolean;
+  unstored: { since: string; error: string; entries: number; dropped: number } | null; // Set while the server cannot write the trail
+}
+
+export interface AuditFilter {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+  user?: string;
+  action?: string;
+  year?: string;
+  outcome?: AuditOutcome;
+}
+
+export type ImportFormat = 'xlsx' | 'xls' | 'csv' | 'tsv';
+
+export interface ImportSource {
+  format: ImportFormat;
+  encoding?: string;  // Text formats only
+  delimiter?: string; // Text formats only
+}
+
+export type MappableField =
+  | 'station' | 'date' | 'days' | 'charge' | 'group'
+  | 'returnDate' | 'returnStation' | 'reservationId' | 'bookingDate' | 'currency';
+
+// Source column header assigned to each RentalRecord field
+export type ColumnMapping = Partial<Record<MappableField, string>>;
+
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+// How dates and numbers are written in a source file
+export interface LocaleProfile {
+  dateOrder: DateOrder;
+  decimalSeparator: '.' | ',';
+  thousandsSeparator: '' | '.' | ',' | ' ' | "'";
+  currencySymbols: string[]; // Stripped from numeric cells before parsing
+}
+
+// What to do with rows whose charge is zero or negative
+export type ChargeRuleAction = 'include' | 'exclude' | 'net' | 'tag';
+
+export interface ChargeRules {
+  zero: ChargeRuleAction;     // 'net' is not offered for zero charges
+  negative: ChargeRuleAction; // 'net' folds a refund into the row with the same reservation ID
+}
+
+// 'complimentary' marks rows tagged as complimentary / upgrade
+export type ChargeType = 'zero' | 'negative' | 'complimentary';
+
+// Dashboard filter: 'regular' keeps only rows without a charge type
+export type ChargeFilter = 'all' | 'regular' | ChargeType;
+
+export interface MappingProfile {
+  name: string;
+  mapping: ColumnMapping;
+  locale?: LocaleProfile;
+  chargeRules?: ChargeRules;
+  headers: string[]; // Headers of the file the profile was created from
+  updatedAt: string;
+}
+
+export interface SheetInfo {
+  name: string;
+  rowCount: number;
+}
+
+export interface FileInspection {
+  headers: string[];
+  sampleRows: Record<string, any>[];
+  totalRows: number;
+  sheets: SheetInfo[];
+  columnSamples: Record<string, any[]>; // Non-empty values spread across the file, per header
+  source: ImportSource;
+  suggestedMapping: ColumnMapping;
 }
 
-export interface WorkerMessage {
-  type: 'PARSE';
-  file: File;
+// Raw name (normalized: lower-case, single spaces) -> canonical display name
+export interface AliasDictionary {
+  stations: Record<string, string>;
+  groups: Record<string, string>;
+  updatedAt?: string;
 }
 
+// Monthly average rate: units of the base currency for 1 unit of `currency`
+export interface FxRate {
+  month: string;    // YYYY-MM
+  currency: string; // ISO 4217 code
+  rate: number;
+}
+
+export interface FxSettings {
+  baseCurrency: string; // Rates are quoted against it; charges with no other currency information are in it
+  rates: FxRate[];
+  stationCurrencies: Record<string, string>; // Normalized station name -> ISO code
+  updatedAt?: string;
+}
+
+export interface ImportOptions {
+  sheets?: string[];   // Sheets to merge; defaults to the first sheet
+  tagSheets?: boolean; // Carry the source sheet name onto each record
+  locale?: LocaleProfile; // Detected from the data when omitted
+  aliases?: AliasDictionary;
+  chargeRules?: ChargeRules; // Everything is included when omitted
+  outlierMethod?: OutlierMethod;
+}
+
+export type RejectionReason =
+  | 'missing_columns' | 'missing_station' | 'invalid_date' | 'invalid_days'
+  | 'zero_charge' | 'negative_charge';
+
+// A source row that did not make it into the dataset
+export interface RowRejection {
+  row: number;    // Row number in the source sheet (header is row 1)
+  sheet?: string; // Only set when several sheets were merged
+  reason: RejectionReason;
+  values: Record<string, any>;
+}
+
+export type OutlierMethod = 'mad' | 'iqr';
+
+// A row whose rate per day falls outside its peers' accepted range
+export interface OutlierFlag {
+  recordId: number;
+  rate: number;
+  median: number; // Typical rate of the peers
+  low: number;    // Accepted range
+  high: number;
+  scope: string;  // Peers the row was compared with, e.g. "Athens · A · 2024-07"
+}
+
+export type OutlierAction = 'accept' | 'exclude' | 'correct';
+
+export interface OutlierDecision {
+  action: OutlierAction;
+  charge?: number; // Replacement charge for 'correct'
+}
+
+export interface OutlierCounts {
+  flagged: number;
+  accepted: number;
+  excluded: number;
+  corrected: number;
+}
+
+// How the charge rules treated the zero and negative rows of an import
+export interface ChargeRuleCounts {
+  zero: number;      // Zero-charge rows found
+  negative: number;  // Negative-charge rows found
+  excluded: number;  // Also listed among the rejections
+  tagged: number;
+  netted: number;    // Refunds folded into their reservation
+  unmatched: number; // Refunds kept as negative rows because no reservation matched
+}
+
+export interface ImportSummary {
+  fileName: string;
+  totalRows: number;
+  importedRows: number;
+  rejections: RowRejection[];
+  chargeCounts?: ChargeRuleCounts;
+  outlierCounts?: OutlierCounts; // Set once flagged rows are reviewed
+  duplicatesRemoved?: number; // Set once the year slices are applied
+  deltas?: Record<number, DeltaReport>; // Years appended to, by year
+}
+
+export interface ParseProgress {
+  phase: 'reading' | 'parsing' | 'hashing';
+  rowsParsed: number;
+  rowsRejected: number;
+  totalRows: number;
+  percent: number; // 0-100
+}
+
+export type WorkerMessage =
+  | { type: 'INSPECT' | 'PARSE'; file: File; mapping?: ColumnMapping; options?: ImportOptions }
+  | { type: 'CANCEL' };
+
 export interface WorkerResponse {
-  type: 'SUCCESS' | 'ERROR';
+  type: 'INSPECTED' | 'PROGRESS' | 'SUCCESS' | 'CANCELLED' | 'ERROR';
+  inspection?: FileInspection;
+  progress?: ParseProgress;
   data?: ProcessedData;
-  stats?: MonthlyAggregation[];
   hash?: string;
+  source?: ImportSource;
+  rejections?: RowRejection[];
+  chargeCounts?: ChargeRuleCounts;
+  outliers?: OutlierFlag[];
   error?: string;
 }
 
+// What to do with one calendar-year slice of an imported file
+export type SliceAction = 'replace' | 'merge' | 'append' | 'local' | 'skip';
+
+// 'append' uploads a delta that the server merges into the active records
+export type UploadMode = 'replace' | 'append';
+
+// Outcome of merging a delta into a year's records
+export interface DeltaReport {
+  from: string; // First day covered by the delta (YYYY-MM-DD)
+  to: string;   // Last day covered by the delta
+  added: number;    // Delta records with no counterpart in the replaced range
+  replaced: number; // Delta records matching a record in the replaced range
+  removed: number;  // Records in the range that the delta no longer contains
+  version: number;
+  hash: string;
+  unchanged?: boolean; // The delta matched the existing records exactly
+}
+
+export type DuplicateKeyField = 'station' | 'date' | 'group' | 'days' | 'charge';
+export type DuplicateStrategy = 'keep-first' | 'keep-last' | 'keep-all';
+
+export interface DuplicateConfig {
+  useReservationId: boolean; // Prefer the reservation ID when a record has one
+  compositeFields: DuplicateKeyField[];
+  strategy: DuplicateStrategy;
+}
+
 export type UploadStatus = 'idle' | 'parsing' | 'uploading' | 'finalizing' | 'success' | 'error';
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { AliasDictionary, RentalRecord } from '../types';
+
+export const EMPTY_ALIASES: AliasDictionary = { stations: {}, groups: {} };
+
+// Lookup key for raw names: case, outer and repeated whitespace don't matter
+export const normalizeName = (raw: string): string => raw.toLowerCase().trim().replace(/\s+/g, ' ');
+
+// Canonical name for a raw value, or the trimmed raw value when it has no alias
+export const resolveAlias = (raw: string, aliases: Record<string, string>): string => {
+  const trimmed = raw.trim();
+  return aliases[normalizeName(trimmed)] || trimmed;
+};
+
+// Rewrite station/group names (and their comparison keys) to their canonical form
+export const applyAliases = (records: RentalRecord[], dict: AliasDictionary): RentalRecord[] => {
+  const hasStations = Object.keys(dict.stations).length > 0;
+  const hasGroups = Object.keys(dict.groups).length > 0;
+  if (!hasStations && !hasGroups) return records;
+
+  return records.map(r => {
+    const station = hasStations ? resolveAlias(r.station, dict.stations) : r.station;
+    const group = hasGroups ? resolveAlias(r.group, dict.groups) : r.group;
+    const returnStation = r.returnStation && hasStations ? resolveAlias(r.returnStation, dict.stations) : r.returnStation;
+    if (station === r.station && group === r.group && returnStation === r.returnStation) return r;
+    return {
+      ...r,
+      station,
+      stationKey: station.toLowerCase().trim(),
+      group,
+      groupKey: group.toLowerCase().trim(),
+      ...(returnStation ? { returnStation } : {})
+    };
+  });
+};
+
+// --- Near-duplicate detection ---
+
+const tokenize = (name: string): string[] =>
+  normalizeName(name).replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+
+// "apt" abbreviates "airport": same first letter, letters appear in order
+const isAbbreviation = (short: string, long: string): boolean => {
+  if (short[0] !== long[0]) return false;
+  let i = 0;
+  for (const ch of long) {
+    if (ch === short[i]) i++;
+    if (i === short.length) return true;
+  }
+  return false;
+};
+
+// Sørensen–Dice coefficient on character bigrams, catches typos such as "Herakion"
+const bigramSimilarity = (a: string, b: string): number => {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bg = a.slice(i, i + 2);
+    bigrams.set(bg, (bigrams.get(bg) || 0) + 1);
+  }
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bg = b.slice(i, i + 2);
+    const count = bigrams.get(bg) || 0;
+    if (count > 0) {
+      bigrams.set(bg, count - 1);
+      overlap++;
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2);
+};
+
+export const looksAlike = (a: string, b: string): boolean => {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.join(' ') === tb.join(' ')) return true;
+  if (bigramSimilarity(ta.join(''), tb.join('')) >= 0.85) return true;
+  if (ta.length !== tb.length) return false;
+  return ta.every((t, i) => {
+    const u = tb[i];
+    if (t === u) return true;
+    return t.length < u.length ? isAbbreviation(t, u) : isAbbreviation(u, t);
+  });
+};
+
+export interface AliasSuggestion {
+  canonical: string;  // Most frequent spelling in the cluster
+  variants: string[]; // Other spellings that look like the same name
+}
+
+// Cluster names that have no alias yet and look alike; counts pick the canonical spelling
+export const findNearDuplicates = (
+  nameCounts: Map<string, number>,
+  aliases: Record<string, string>
+): AliasSuggestion[] => {
+  const names = Array.from(nameCounts.keys()).filter(n => !aliases[normalizeName(n)]);
+  const parent = names.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < names.length; i++) {
+    for (let j = i + 1; j < names.length; j++) {
+      if (looksAlike(names[i], names[j])) parent[find(i)] = find(j);
+    }
+  }
+
+  const clusters = new Map<number, string[]>();
+  names.forEach((name, i) => {
+    const root = find(i);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root)!.push(name);
+  });
+
+  return Array.from(clusters.values())
+    .filter(members => members.length > 1)
+    .map(members => {
+      const sorted = [...members].sort((a, b) => (nameCounts.get(b) || 0) - (nameCounts.get(a) || 0));
+      return { canonical: sorted[0], variants: sorted.slice(1) };
+    });
+};
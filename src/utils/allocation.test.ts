@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { RentalRecord } from '../types';
+import { rentalSpan, forEachRentalDay } from './allocation';
+
+const rental = (date: Date, days: number, charge: number, returnDate?: Date): RentalRecord => ({
+  id: 0,
+  station: 'Athens',
+  stationKey: 'athens',
+  group: 'A',
+  groupKey: 'a',
+  date,
+  monthKey: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`,
+  displayDate: '',
+  day: date.getDate(),
+  days,
+  charge,
+  year: date.getFullYear(),
+  ...(returnDate ? { returnDate } : {}),
+});
+
+const collect = (r: RentalRecord) => {
+  const days: { year: number; month: number; day: number; days: number; charge: number }[] = [];
+  forEachRentalDay(r, (year, month, day, days_, charge) => days.push({ year, month, day, days: days_, charge }));
+  return days;
+};
+
+describe('rentalSpan', () => {
+  it('counts calendar days from check-out up to the return day', () => {
+    expect(rentalSpan(rental(new Date(2024, 2, 5), 3, 90, new Date(2024, 2, 8)))).toBe(3);
+  });
+
+  it('falls back to the billed days without a return date', () => {
+    expect(rentalSpan(rental(new Date(2024, 2, 5), 4.4, 90))).toBe(4);
+  });
+
+  it('counts a same-day return as one day', () => {
+    expect(rentalSpan(rental(new Date(2024, 2, 5), 1, 40, new Date(2024, 2, 5)))).toBe(1);
+  });
+});
+
+describe('forEachRentalDay', () => {
+  it('gives every day on rent an equal share of the days and charge', () => {
+    const days = collect(rental(new Date(2024, 2, 5), 2, 90, new Date(2024, 2, 8)));
+    expect(days.map(d => d.day)).toEqual([5, 6, 7]);
+    days.forEach(d => {
+      expect(d.charge).toBeCloseTo(30);
+      expect(d.days).toBeCloseTo(2 / 3);
+    });
+  });
+
+  it('runs on into the next month', () => {
+    const days = collect(rental(new Date(2024, 1, 28), 3, 60, new Date(2024, 2, 2)));
+    expect(days.map(d => [d.month, d.day])).toEqual([[1, 28], [1, 29], [2, 1]]);
+  });
+
+  it('runs on into the next year, keeping the whole charge', () => {
+    const days = collect(rental(new Date(2024, 11, 25), 11, 1100, new Date(2025, 0, 5)));
+    expect(days).toHaveLength(11);
+    expect(days.filter(d => d.year === 2024)).toHaveLength(7);
+    expect(days.filter(d => d.year === 2025).map(d => d.day)).toEqual([1, 2, 3, 4]);
+    expect(days.reduce((sum, d) => sum + d.charge, 0)).toBeCloseTo(1100);
+  });
+});
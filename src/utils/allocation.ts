@@ -0,0 +1,44 @@
+import { RentalRecord } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Calendar days the car was out: check-out up to (not including) the return day.
+// Without a return date the billed days are assumed to run back to back.
+export const rentalSpan = (r: RentalRecord): number => {
+  if (r.returnDate) {
+    const start = Date.UTC(r.date.getFullYear(), r.date.getMonth(), r.date.getDate());
+    const end = Date.UTC(r.returnDate.getFullYear(), r.returnDate.getMonth(), r.returnDate.getDate());
+    return Math.max(1, Math.round((end - start) / MS_PER_DAY));
+  }
+  return Math.max(1, Math.round(r.days));
+};
+
+// Call back once per calendar day on rent, with an equal share of the days and charge
+export const forEachRentalDay = (
+  r: RentalRecord,
+  onDay: (year: number, month: number, day: number, days: number, charge: number) => void
+) => {
+  const span = rentalSpan(r);
+  const daysShare = r.days / span;
+  const chargeShare = r.charge / span;
+  let year = r.date.getFullYear();
+  let month = r.date.getMonth();
+  let day = r.date.getDate();
+  let monthLength = daysInMonth(year, month);
+
+  for (let i = 0; i < span; i++) {
+    onDay(year, month, day, daysShare, chargeShare);
+    day++;
+    if (day > monthLength) {
+      day = 1;
+      month++;
+      if (month > 11) {
+        month = 0;
+        year++;
+      }
+      monthLength = daysInMonth(year, month);
+    }
+  }
+};
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { RentalRecord } from '../types';
+import { emptyChargeCounts, netRefunds } from './chargeRules';
+
+const record = (id: number, charge: number, reservationId?: string): RentalRecord => ({
+  id,
+  station: 'Athens',
+  stationKey: 'athens',
+  group: 'A',
+  groupKey: 'a',
+  date: new Date('2024-03-10T00:00:00'),
+  monthKey: '2024-03',
+  displayDate: '',
+  day: 10,
+  days: 2,
+  charge,
+  year: 2024,
+  ...(reservationId ? { reservationId } : {}),
+});
+
+describe('netRefunds', () => {
+  it('folds each refund into the booking with its reservation ID, ignoring case', () => {
+    const booking = record(0, 200, 'RA-1');
+    const refund = record(1, -50, 'ra-1');
+    const other = record(2, 80, 'RA-2');
+    const counts = emptyChargeCounts();
+
+    const kept = netRefunds([booking, refund, other], new Set([refund]), counts);
+
+    expect(kept.map(r => [r.id, r.charge])).toEqual([[0, 150], [2, 80]]);
+    expect(counts).toMatchObject({ netted: 1, unmatched: 0 });
+  });
+
+  it('folds several refunds into the first booking of a reservation', () => {
+    const first = record(0, 200, 'RA-1');
+    const second = record(1, 100, 'RA-1');
+    const refunds = [record(2, -20, 'RA-1'), record(3, -30, 'RA-1')];
+    const counts = emptyChargeCounts();
+
+    const kept = netRefunds([first, second, ...refunds], new Set(refunds), counts);
+
+    expect(kept.map(r => [r.id, r.charge])).toEqual([[0, 150], [1, 100]]);
+    expect(counts.netted).toBe(2);
+  });
+
+  it('keeps and counts refunds without a matching booking', () => {
+    const noId = record(0, -40);
+    const noBooking = record(1, -60, 'RA-9');
+    const refundOnly = record(2, -10, 'RA-9');
+    const refunds = new Set([noId, noBooking, refundOnly]);
+    const counts = emptyChargeCounts();
+
+    const kept = netRefunds([noId, noBooking, refundOnly, record(3, 90, 'RA-1')], refunds, counts);
+
+    expect(kept.map(r => r.id)).toEqual([0, 1, 2, 3]);
+    expect(counts).toMatchObject({ netted: 0, unmatched: 3 });
+  });
+
+  it('returns the records untouched without refunds', () => {
+    const records = [record(0, 100, 'RA-1')];
+    expect(netRefunds(records, new Set(), emptyChargeCounts())).toBe(records);
+  });
+});
@@ -0,0 +1,53 @@
+import { ChargeRuleAction, ChargeRules, ChargeRuleCounts, ChargeType, RentalRecord } from '../types';
+
+// Matches the behaviour before rules existed: every row with days > 0 is kept as is
+export const DEFAULT_CHARGE_RULES: ChargeRules = { zero: 'include', negative: 'include' };
+
+export const CHARGE_RULE_LABELS: Record<ChargeRuleAction, string> = {
+  include: 'Include',
+  exclude: 'Exclude',
+  net: 'Net against reservation',
+  tag: 'Tag as complimentary / upgrade',
+};
+
+export const CHARGE_TYPE_LABELS: Record<ChargeType, string> = {
+  zero: 'Zero charge',
+  negative: 'Negative charge',
+  complimentary: 'Complimentary / upgrade',
+};
+
+export const emptyChargeCounts = (): ChargeRuleCounts => ({
+  zero: 0, negative: 0, excluded: 0, tagged: 0, netted: 0, unmatched: 0
+});
+
+// Fold each refund into a non-refund record with the same reservation ID.
+// Returns the records without the folded refunds; counts are updated in place.
+export const netRefunds = (
+  records: RentalRecord[],
+  refunds: Set<RentalRecord>,
+  counts: ChargeRuleCounts
+): RentalRecord[] => {
+  if (refunds.size === 0) return records;
+
+  const byReservation = new Map<string, RentalRecord>();
+  records.forEach(r => {
+    if (r.reservationId && !refunds.has(r)) {
+      const key = r.reservationId.toLowerCase();
+      if (!byReservation.has(key)) byReservation.set(key, r);
+    }
+  });
+
+  const netted = new Set<RentalRecord>();
+  refunds.forEach(refund => {
+    const target = refund.reservationId ? byReservation.get(refund.reservationId.toLowerCase()) : undefined;
+    if (!target) {
+      counts.unmatched++;
+      return;
+    }
+    target.charge += refund.charge;
+    netted.add(refund);
+    counts.netted++;
+  });
+
+  return records.filter(r => !netted.has(r));
+};
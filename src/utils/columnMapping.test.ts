@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ColumnMapping, MappingProfile } from '../types';
+import { findMatchingProfile, getMissingRequiredFields, suggestMapping } from './columnMapping';
+
+const profile = (name: string, mapping: ColumnMapping): MappingProfile => ({
+  name,
+  mapping,
+  headers: Object.values(mapping) as string[],
+  updatedAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('suggestMapping', () => {
+  it('maps the headers of the reservation system export', () => {
+    const headers = ['Check-out Station', 'Check-out Date', 'Days', 'Rental Charge', 'Charged Group', 'Agreement No'];
+    expect(suggestMapping(headers)).toEqual({
+      station: 'Check-out Station',
+      date: 'Check-out Date',
+      days: 'Days',
+      charge: 'Rental Charge',
+      group: 'Charged Group',
+      reservationId: 'Agreement No',
+    });
+  });
+
+  it('keeps generic candidates off the check-in and booking columns', () => {
+    const headers = ['Return Station', 'Return Date', 'Booking Date', 'Station', 'Date'];
+    expect(suggestMapping(headers)).toEqual({
+      returnStation: 'Return Station',
+      returnDate: 'Return Date',
+      bookingDate: 'Booking Date',
+      station: 'Station',
+      date: 'Date',
+    });
+  });
+
+  it('uses each header once and ignores case and padding', () => {
+    expect(suggestMapping([' DATE ', 'Amount'])).toEqual({ date: ' DATE ', charge: 'Amount' });
+  });
+});
+
+describe('getMissingRequiredFields', () => {
+  it('lists required fields unmapped or mapped to a column the file lacks', () => {
+    const mapping: ColumnMapping = { station: 'Station', date: 'Date', days: 'Days', charge: 'Total' };
+    const missing = getMissingRequiredFields(mapping, ['Station', 'Date', 'Charge']);
+    expect(missing.map(def => def.field)).toEqual(['days', 'charge']);
+  });
+});
+
+describe('findMatchingProfile', () => {
+  const small = profile('Small', { station: 'Station', date: 'Date' });
+  const large = profile('Large', { station: 'Station', date: 'Date', days: 'Days', charge: 'Charge' });
+  const other = profile('Other', { station: 'Branch', date: 'Date' });
+
+  it('picks the profile mapping the most columns present in the file', () => {
+    expect(findMatchingProfile([small, large, other], ['Station', 'Date', 'Days', 'Charge'])?.name).toBe('Large');
+    expect(findMatchingProfile([large, small], ['Station', 'Date', 'Days'])?.name).toBe('Small');
+  });
+
+  it('finds nothing when every profile maps a column the file lacks', () => {
+    expect(findMatchingProfile([large, other], ['Station', 'Date'])).toBeUndefined();
+    expect(findMatchingProfile([profile('Empty', {})], ['Station'])).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { ColumnMapping, MappableField, MappingProfile } from '../types';
+
+export interface FieldDefinition {
+  field: MappableField;
+  label: string;
+  required: boolean;
+  candidates: string[]; // Lower-case header fragments used for auto-detection
+}
+
+// The RentalRecord fields a source column can be assigned to, in wizard order
+export const MAPPABLE_FIELDS: FieldDefinition[] = [
+  { field: 'station', label: 'Check-out Station', required: true, candidates: ['station', 'check-out station', 'checkout station'] },
+  { field: 'date', label: 'Check-out Date', required: true, candidates: ['check-out date', 'checkout date', 'date'] },
+  { field: 'days', label: 'Rental Days', required: true, candidates: ['days', 'duration'] },
+  { field: 'charge', label: 'Rental Charge', required: true, candidates: ['rental charge', 'amount', 'charge', 'price'] },
+  { field: 'group', label: 'Car Group', required: false, candidates: ['charged group', 'car group', 'group', 'category'] },
+  { field: 'returnDate', label: 'Check-in (Return) Date', required: false, candidates: ['check-in date', 'checkin date', 'return date'] },
+  { field: 'returnStation', label: 'Check-in (Return) Station', required: false, candidates: ['check-in station', 'checkin station', 'return station'] },
+  { field: 'reservationId', label: 'Reservation / Agreement No.', required: false, candidates: ['reservation no', 'reservation number', 'agreement no', 'agreement number', 'reservation id', 'agreement', 'contract'] },
+  { field: 'bookingDate', label: 'Booking Date', required: false, candidates: ['booking date', 'reservation date', 'created date', 'booked'] },
+  { field: 'currency', label: 'Currency', required: false, candidates: ['currency', 'ccy'] },
+];
+
+// Specific fields are matched first so generic candidates such as "date" or
+// "station" cannot claim the check-in or booking columns
+const DETECTION_ORDER: MappableField[] = [
+  'returnDate', 'returnStation', 'bookingDate', 'reservationId', 'currency', 'station', 'date', 'days', 'charge', 'group'
+];
+
+const findColumnKey = (headers: string[], candidates: string[]): string | undefined => {
+  for (const candidate of candidates) {
+    const foundKey = headers.find(key => key.toLowerCase().trim() === candidate || key.toLowerCase().trim().includes(candidate));
+    if (foundKey) return foundKey;
+  }
+  return undefined;
+};
+
+// Best-effort guess used to pre-fill the mapping wizard; each header is used once
+export const suggestMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const available = [...headers];
+  DETECTION_ORDER.forEach(field => {
+    const def = MAPPABLE_FIELDS.find(d => d.field === field)!;
+    const key = findColumnKey(available, def.candidates);
+    if (key) {
+      mapping[field] = key;
+      available.splice(available.indexOf(key), 1);
+    }
+  });
+  return mapping;
+};
+
+export const getMissingRequiredFields = (mapping: ColumnMapping, headers: string[]): FieldDefinition[] => {
+  return MAPPABLE_FIELDS.filter(def => def.required && (!mapping[def.field] || !headers.includes(mapping[def.field]!)));
+};
+
+// A profile applies when every column it maps is present in the new file.
+// The profile with the most mapped columns wins.
+export const findMatchingProfile = (profiles: MappingProfile[], headers: string[]): MappingProfile | undefined => {
+  const headerSet = new Set(headers);
+  return profiles
+    .filter(p => {
+      const columns = Object.values(p.mapping).filter(Boolean) as string[];
+      return columns.length > 0 && columns.every(c => headerSet.has(c));
+    })
+    .sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0];
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv } from './csvExport';
+
+describe('toCsv', () => {
+  it('quotes cells with delimiters, quotes and line breaks', () => {
+    expect(toCsv(['Station', 'Reason'], [{ Station: 'Athens, Airport', Reason: 'Said "late"\nreturn' }]))
+      .toBe('Station,Reason\r\n"Athens, Airport","Said ""late""\nreturn"');
+  });
+
+  it('neutralises text that a spreadsheet would read as a formula', () => {
+    const rows = [{ Value: '=HYPERLINK("http://x")' }, { Value: '+30 210' }, { Value: '-5' }, { Value: '@SUM(A1)' }, { Value: '\tcmd' }];
+    expect(toCsv(['Value'], rows).split('\r\n').slice(1)).toEqual([
+      `"'=HYPERLINK(""http://x"")"`, `'+30 210`, `'-5`, `'@SUM(A1)`, `'\tcmd`,
+    ]);
+  });
+
+  it('writes numbers and dates as they are and leaves missing cells empty', () => {
+    const rows = [{ Charge: -12.5, Date: new Date('2024-03-10T00:00:00.000Z') }, {}];
+    expect(toCsv(['Charge', 'Date'], rows)).toBe('Charge,Date\r\n-12.5,2024-03-10T00:00:00.000Z\r\n,');
+  });
+});
@@ -0,0 +1,30 @@
+// Quote a value for CSV output when it contains a delimiter, quote or line break.
+// Text starting like a formula gets a leading quote, as in the server's query export.
+const escapeCell = (val: any): string => {
+  if (val === null || val === undefined) return '';
+  let str = val instanceof Date ? val.toISOString() : String(val);
+  if (typeof val === 'string' && /^[=+\-@\t\r]/.test(str)) str = `'${str}`;
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const toCsv = (columns: string[], rows: Record<string, any>[]): string => {
+  const lines = [columns.map(escapeCell).join(',')];
+  rows.forEach(row => {
+    lines.push(columns.map(col => escapeCell(row[col])).join(','));
+  });
+  return lines.join('\r\n');
+};
+
+// Trigger a browser download for generated content
+export const downloadFile = (fileName: string, content: string, mimeType = 'text/csv;charset=utf-8') => {
+  // BOM so Excel opens UTF-8 (e.g. Greek station names) correctly
+  const blob = new Blob(['\uFEFF', content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { FxSettings, RentalRecord } from '../types';
+import { buildProcessedData } from './datasetUtils';
+import { convertDataset } from './currency';
+
+const record = (station: string, monthKey: string, charge: number, currency?: string): RentalRecord => ({
+  id: 0,
+  station,
+  stationKey: station.toLowerCase(),
+  group: 'A',
+  groupKey: 'a',
+  date: new Date(`${monthKey}-10T00:00:00`),
+  monthKey,
+  displayDate: '',
+  day: 10,
+  days: 2,
+  charge,
+  year: Number(monthKey.slice(0, 4)),
+  ...(currency ? { currency } : {}),
+});
+
+const fx: FxSettings = {
+  baseCurrency: 'EUR',
+  rates: [
+    { month: '2024-01', currency: 'GBP', rate: 1.2 },
+    { month: '2024-03', currency: 'GBP', rate: 1.25 },
+    { month: '2024-01', currency: 'USD', rate: 0.9 },
+  ],
+  stationCurrencies: { london: 'GBP' },
+};
+
+describe('convertDataset', () => {
+  it('returns the dataset unchanged when everything is already in the target currency', () => {
+    const data = buildProcessedData([record('Athens', '2024-01', 100)], 2024);
+    expect(convertDataset(data, fx, 'EUR').data).toBe(data);
+  });
+
+  it('converts with the rate of the record month', () => {
+    const data = buildProcessedData([record('Athens', '2024-03', 100, 'GBP')], 2024);
+    const { data: converted, missing } = convertDataset(data, fx, 'EUR');
+    expect(converted.records[0].charge).toBeCloseTo(125);
+    expect(converted.records[0].currency).toBe('EUR');
+    expect(missing).toEqual([]);
+  });
+
+  it('uses the latest earlier rate while the month has none yet', () => {
+    const data = buildProcessedData([record('Athens', '2024-02', 100, 'GBP')], 2024);
+    expect(convertDataset(data, fx, 'EUR').data.records[0].charge).toBeCloseTo(120);
+  });
+
+  it('falls back to the station currency when the record states none', () => {
+    const data = buildProcessedData([record('London', '2024-01', 100), record('Athens', '2024-01', 100)], 2024);
+    const charges = convertDataset(data, fx, 'EUR').data.records.map(r => r.charge);
+    expect(charges[0]).toBeCloseTo(120);
+    expect(charges[1]).toBeCloseTo(100);
+  });
+
+  it('converts between two foreign currencies through the base currency', () => {
+    const data = buildProcessedData([record('Athens', '2024-01', 90, 'USD')], 2024);
+    expect(convertDataset(data, fx, 'GBP').data.records[0].charge).toBeCloseTo(90 * 0.9 / 1.2);
+  });
+
+  it('leaves out and reports records whose rate is unknown', () => {
+    const data = buildProcessedData([
+      record('Athens', '2024-01', 100, 'CHF'),
+      record('Athens', '2024-01', 50, 'CHF'),
+      record('Athens', '2023-12', 80, 'GBP'),
+      record('Athens', '2024-01', 70),
+    ], 2024);
+    const { data: converted, missing } = convertDataset(data, fx, 'EUR');
+    expect(converted.records.map(r => r.charge)).toEqual([70]);
+    expect(converted.totalRecords).toBe(1);
+    expect(missing).toEqual([
+      { currency: 'GBP', month: '2023-12', count: 1 },
+      { currency: 'CHF', month: '2024-01', count: 2 },
+    ]);
+  });
+});
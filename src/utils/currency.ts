@@ -0,0 +1,149 @@
+import { FxRate, FxSettings, ProcessedData, RentalRecord } from '../types';
+import { buildProcessedData } from './datasetUtils';
+import { normalizeName } from './aliases';
+import { detectDelimiter, parseDelimited } from './delimitedText';
+
+export const DEFAULT_FX: FxSettings = { baseCurrency: 'EUR', rates: [], stationCurrencies: {} };
+
+// Symbols seen in rental exports; "$" is read as US dollars
+const SYMBOL_CURRENCIES: [string, string][] = [
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['$', 'USD'],
+];
+
+const ISO_CODE = /^[A-Z]{3}$/;
+
+export const isCurrencyCode = (val: string): boolean => ISO_CODE.test(val);
+
+// ISO code for a currency column value such as "GBP", "gbp" or "£"
+export const normalizeCurrency = (val: any): string | null => {
+  if (val === null || val === undefined) return null;
+  const str = String(val).trim();
+  if (isCurrencyCode(str.toUpperCase())) return str.toUpperCase();
+  const symbol = SYMBOL_CURRENCIES.find(([sym]) => str === sym);
+  return symbol ? symbol[1] : null;
+};
+
+// Currency written inside a charge cell, e.g. "£120.00" or "CHF 95"
+export const detectCurrency = (val: any): string | null => {
+  if (typeof val !== 'string') return null;
+  const code = val.match(/(?:^|[^A-Za-z])([A-Z]{3})(?:[^A-Za-z]|$)/);
+  if (code) return code[1];
+  const symbol = SYMBOL_CURRENCIES.find(([sym]) => val.includes(sym));
+  return symbol ? symbol[1] : null;
+};
+
+// Stated currency first, then the station's configured currency, then the base currency
+export const recordCurrency = (r: RentalRecord, fx: FxSettings): string => {
+  return r.currency || fx.stationCurrencies[normalizeName(r.station)] || fx.baseCurrency;
+};
+
+export const formatMoney = (val: number, currency: string, fractionDigits = 0): string => {
+  try {
+    return val.toLocaleString(undefined, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    });
+  } catch {
+    return `${currency} ${val.toFixed(fractionDigits)}`;
+  }
+};
+
+// Per currency: [month, rate] pairs in ascending month order
+const indexRates = (fx: FxSettings): Map<string, [string, number][]> => {
+  const index = new Map<string, [string, number][]>();
+  fx.rates.forEach(r => {
+    if (!index.has(r.currency)) index.set(r.currency, []);
+    index.get(r.currency)!.push([r.month, r.rate]);
+  });
+  index.forEach(list => list.sort(([a], [b]) => a.localeCompare(b)));
+  return index;
+};
+
+// Rate for the month, or the latest earlier month while the new average is not published yet
+const lookupRate = (index: Map<string, [string, number][]>, fx: FxSettings, currency: string, month: string): number | null => {
+  if (currency === fx.baseCurrency) return 1;
+  const list = index.get(currency);
+  if (!list) return null;
+  let found: number | null = null;
+  for (const [m, rate] of list) {
+    if (m > month) break;
+    found = rate;
+  }
+  return found;
+};
+
+export interface MissingRate {
+  currency: string;
+  month: string;
+  count: number; // Records left out of the converted dataset
+}
+
+// Express every charge in the reporting currency. Records whose rate is unknown are
+// left out and reported, rather than mixing currencies in the totals.
+export const convertDataset = (
+  data: ProcessedData,
+  fx: FxSettings,
+  target: string
+): { data: ProcessedData; missing: MissingRate[] } => {
+  if (data.records.every(r => recordCurrency(r, fx) === target)) return { data, missing: [] };
+
+  const index = indexRates(fx);
+  const missing = new Map<string, MissingRate>();
+  const records: RentalRecord[] = [];
+
+  data.records.forEach(r => {
+    const currency = recordCurrency(r, fx);
+    if (currency === target) {
+      records.push(r);
+      return;
+    }
+    const from = lookupRate(index, fx, currency, r.monthKey);
+    const to = lookupRate(index, fx, target, r.monthKey);
+    if (from === null || to === null) {
+      const unknown = from === null ? currency : target;
+      const key = `${unknown}|${r.monthKey}`;
+      if (!missing.has(key)) missing.set(key, { currency: unknown, month: r.monthKey, count: 0 });
+      missing.get(key)!.count += r.count ?? 1;
+      return;
+    }
+    records.push({ ...r, charge: (r.charge * from) / to, currency: target });
+  });
+
+  return {
+    data: buildProcessedData(records, data.year),
+    missing: Array.from(missing.values()).sort((a, b) => a.month.localeCompare(b.month) || a.currency.localeCompare(b.currency))
+  };
+};
+
+// Every currency the settings or the loaded data refer to, for the reporting currency picker
+export const knownCurrencies = (fx: FxSettings, datasets: ProcessedData[]): string[] => {
+  const codes = new Set<string>([fx.baseCurrency]);
+  fx.rates.forEach(r => codes.add(r.currency));
+  Object.values(fx.stationCurrencies).forEach(c => codes.add(c));
+  datasets.forEach(d => d.records.forEach(r => { if (r.currency) codes.add(r.currency); }));
+  return Array.from(codes).sort();
+};
+
+// Rate table export with month, currency and rate columns (header names are matched loosely)
+export const parseRateTable = (text: string): { rates: FxRate[]; invalid: number } => {
+  const rows = parseDelimited(text, detectDelimiter(text));
+  const rates: FxRate[] = [];
+  let invalid = 0;
+  rows.forEach(row => {
+    const lookup = (name: string) => {
+      const key = Object.keys(row).find(k => k.toLowerCase().trim().includes(name));
+      return key ? String(row[key]).trim() : '';
+    };
+    const month = lookup('month').slice(0, 7);
+    const currency = normalizeCurrency(lookup('currency'));
+    const rawRate = lookup('rate');
+    const rate = parseFloat(rawRate.includes('.') ? rawRate : rawRate.replace(',', '.'));
+    if (/^\d{4}-(0[1-9]|1[0-2])$/.test(month) && currency && rate > 0) rates.push({ month, currency, rate });
+    else invalid++;
+  });
+  return { rates, invalid };
+};
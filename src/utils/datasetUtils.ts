@@ -0,0 +1,86 @@
+import { ProcessedData, RentalRecord, StatsCube } from '../types';
+
+// SHA-256 over the normalized records, so identical content yields an identical hash
+export const hashRecords = async (records: RentalRecord[]): Promise<string> => {
+  const msgBuffer = new TextEncoder().encode(JSON.stringify(records));
+  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Restore Date fields after JSON serialization or a worker transfer
+export const hydrateRecord = (r: RentalRecord): RentalRecord => {
+  r.date = new Date(r.date);
+  if (r.returnDate) r.returnDate = new Date(r.returnDate);
+  if (r.bookingDate) r.bookingDate = new Date(r.bookingDate);
+  return r;
+};
+
+// Calendar year holding most of the records (0 when empty)
+export const dominantYear = (records: RentalRecord[]): number => {
+  const counts = new Map<number, number>();
+  records.forEach(r => counts.set(r.year, (counts.get(r.year) || 0) + 1));
+  let best = 0;
+  let bestCount = 0;
+  counts.forEach((count, year) => {
+    if (count > bestCount) {
+      best = year;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+// Rebuild the derived lookup lists around a set of records
+export const buildProcessedData = (records: RentalRecord[], year: number): ProcessedData => ({
+  records,
+  stations: Array.from(new Set(records.map(r => r.station))).sort(),
+  groups: Array.from(new Set(records.map(r => r.group))).sort(),
+  months: Array.from(new Set(records.map(r => r.monthKey))).sort(),
+  totalRecords: records.reduce((acc, r) => acc + (r.count ?? 1), 0),
+  year,
+  aggregated: records.some(r => r.count !== undefined)
+});
+
+// Stats cube cells as records dated to the first day of their period, so the
+// dashboard's filters, aliases and currency conversion apply to them unchanged
+export const expandStatsCube = (cube: StatsCube): RentalRecord[] => {
+  return cube.cells.map((c, id) => {
+    const [year, month] = c.month.split('-').map(Number);
+    const date = new Date(year, month - 1, c.period);
+    return {
+      id,
+      station: c.station,
+      stationKey: c.station.toLowerCase().trim(),
+      group: c.group,
+      groupKey: c.group.toLowerCase().trim(),
+      date,
+      monthKey: c.month,
+      displayDate: date.toLocaleString('default', { month: 'short', year: 'numeric' }),
+      day: c.period,
+      days: c.days,
+      charge: c.revenue,
+      currency: c.currency,
+      chargeType: c.chargeType,
+      year,
+      count: c.count
+    };
+  });
+};
+
+// One dataset per calendar year, in ascending year order
+export const splitByYear = (data: ProcessedData): ProcessedData[] => {
+  const byYear = new Map<number, RentalRecord[]>();
+  data.records.forEach(r => {
+    if (!byYear.has(r.year)) byYear.set(r.year, []);
+    byYear.get(r.year)!.push(r);
+  });
+  return Array.from(byYear.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, records]) => buildProcessedData(records, year));
+};
+
+// Renumber ids after records from several sources were combined, so they stay unique
+export const renumberRecords = (records: RentalRecord[]): RentalRecord[] => {
+  return records.map((r, index) => ({ ...r, id: index }));
+};
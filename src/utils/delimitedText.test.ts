@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { decodeText, detectDelimiter, detectFileFormat, parseDelimited } from './delimitedText';
+
+const bufferOf = (bytes: number[]) => new Uint8Array(bytes).buffer;
+
+describe('detectFileFormat', () => {
+  it('trusts the magic bytes over the extension', () => {
+    expect(detectFileFormat('export.csv', bufferOf([0x50, 0x4b, 0x03, 0x04]))).toBe('xlsx');
+    expect(detectFileFormat('export.csv', bufferOf([0xd0, 0xcf, 0x11, 0xe0]))).toBe('xls');
+  });
+
+  it('falls back to the extension for text', () => {
+    expect(detectFileFormat('Export.TSV', bufferOf([0x61]))).toBe('tsv');
+    expect(detectFileFormat('export.txt', bufferOf([0x61]))).toBe('csv');
+  });
+});
+
+describe('decodeText', () => {
+  it('reads UTF-8, dropping the BOM', () => {
+    const bytes = [0xef, 0xbb, 0xbf, ...new TextEncoder().encode('Αθήνα')];
+    expect(decodeText(bufferOf(bytes))).toEqual({ text: 'Αθήνα', encoding: 'utf-8' });
+  });
+
+  it('falls back to Windows-1253 when the bytes are not UTF-8', () => {
+    expect(decodeText(bufferOf([0xc1, 0xe8, 0xde, 0xed, 0xe1]))).toEqual({ text: 'Αθήνα', encoding: 'windows-1253' });
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter used consistently across lines', () => {
+    expect(detectDelimiter('Station;Charge\nAthens;1,50\nPatras;2,75\n')).toBe(';');
+    expect(detectDelimiter('Station\tCharge\nAthens\t1.50\n')).toBe('\t');
+    expect(detectDelimiter('Station|Group|Charge\nAthens|A|1\n')).toBe('|');
+  });
+
+  it('ignores delimiters inside quoted fields', () => {
+    expect(detectDelimiter('Station;Charge\n"Athens, Airport";10\n"Patras, Port";12\n')).toBe(';');
+  });
+
+  it('defaults to a comma', () => {
+    expect(detectDelimiter('')).toBe(',');
+    expect(detectDelimiter('Station\nAthens\n')).toBe(',');
+  });
+});
+
+describe('parseDelimited', () => {
+  it('keys the rows by header and trims the cells', () => {
+    expect(parseDelimited('Station, Charge\r\nAthens , 10\r\nPatras,12', ',')).toEqual([
+      { Station: 'Athens', Charge: '10' },
+      { Station: 'Patras', Charge: '12' },
+    ]);
+  });
+
+  it('reads quoted fields with delimiters, doubled quotes and line breaks', () => {
+    const text = 'Station,Note\n"Athens, Airport","Said ""late""\nreturn"\n';
+    expect(parseDelimited(text, ',')).toEqual([{ Station: 'Athens, Airport', Note: 'Said "late"\nreturn' }]);
+  });
+
+  it('names empty and repeated headers, fills short rows and skips blank ones', () => {
+    expect(parseDelimited('Charge,,Charge\n10\n,,\n', ',')).toEqual([{ Charge: '10', __EMPTY_1: '', Charge_1: '' }]);
+  });
+});
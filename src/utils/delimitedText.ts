@@ -0,0 +1,138 @@
+import { ImportFormat } from '../types';
+
+// Windows-1253 covers the Greek station names our reservation system exports
+// when it does not write UTF-8.
+const FALLBACK_ENCODING = 'windows-1253';
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const SAMPLE_LINES = 20;
+
+// Detect the file format from magic bytes first, then the extension
+export const detectFileFormat = (fileName: string, buffer: ArrayBuffer): ImportFormat => {
+  const bytes = new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 8));
+  // XLSX is a ZIP container ("PK\x03\x04")
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04) return 'xlsx';
+  // Legacy XLS is an OLE2 compound document
+  if (bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0) return 'xls';
+
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.tsv') || name.endsWith('.tab')) return 'tsv';
+  return 'csv';
+};
+
+// Decode raw bytes, honouring a BOM and falling back when the bytes are not valid UTF-8
+export const decodeText = (buffer: ArrayBuffer): { text: string; encoding: string } => {
+  const bytes = new Uint8Array(buffer);
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' };
+  }
+
+  try {
+    // TextDecoder strips a UTF-8 BOM by default
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch (e) {
+    return { text: new TextDecoder(FALLBACK_ENCODING).decode(bytes), encoding: FALLBACK_ENCODING };
+  }
+};
+
+// Pick the delimiter that appears most consistently across the first lines.
+// Quoted sections are removed first so commas inside "Athens, Airport" don't count.
+export const detectDelimiter = (text: string): string => {
+  const lines = text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .slice(0, SAMPLE_LINES)
+    .map(line => line.replace(/"(?:[^"]|"")*"/g, ''));
+
+  if (lines.length === 0) return ',';
+
+  let best = { delimiter: ',', consistency: 0, count: 0 };
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const counts = lines.map(line => line.split(delimiter).length - 1);
+    const headerCount = counts[0];
+    if (headerCount === 0) continue;
+
+    const consistency = counts.filter(c => c === headerCount).length / counts.length;
+    if (
+      consistency > best.consistency ||
+      (consistency === best.consistency && headerCount > best.count)
+    ) {
+      best = { delimiter, consistency, count: headerCount };
+    }
+  }
+  return best.delimiter;
+};
+
+// RFC 4180 style tokenizer: quoted fields, doubled quotes and line breaks inside quotes
+const tokenize = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// Convert delimited text into header-keyed row objects, the same shape
+// XLSX.utils.sheet_to_json produces with { defval: '' }
+export const parseDelimited = (text: string, delimiter: string): Record<string, string>[] => {
+  const [headerRow, ...body] = tokenize(text, delimiter);
+  if (!headerRow) return [];
+
+  const seen = new Map<string, number>();
+  const headers = headerRow.map((raw, index) => {
+    const base = raw.trim() || `__EMPTY_${index}`;
+    const n = seen.get(base) || 0;
+    seen.set(base, n + 1);
+    return n === 0 ? base : `${base}_${n}`;
+  });
+
+  return body.map(cells => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => {
+      row[header] = cells[i] !== undefined ? cells[i].trim() : '';
+    });
+    return row;
+  });
+};
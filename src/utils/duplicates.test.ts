@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { DuplicateConfig, RentalRecord } from '../types';
+import { DEFAULT_DUPLICATE_CONFIG, duplicateKey, resolveDuplicates } from './duplicates';
+
+const record = (id: number, charge: number, extra: Partial<RentalRecord> = {}): RentalRecord => ({
+  id,
+  station: 'Athens',
+  stationKey: 'athens',
+  group: 'A',
+  groupKey: 'a',
+  date: new Date('2024-03-10T09:00:00'),
+  monthKey: '2024-03',
+  displayDate: '',
+  day: 10,
+  days: 2,
+  charge,
+  year: 2024,
+  ...extra,
+});
+
+const config = (strategy: DuplicateConfig['strategy']): DuplicateConfig => ({ ...DEFAULT_DUPLICATE_CONFIG, strategy });
+const ids = (records: RentalRecord[]) => records.map(r => r.id);
+
+describe('duplicateKey', () => {
+  it('uses the reservation ID, ignoring case, when configured', () => {
+    expect(duplicateKey(record(0, 10, { reservationId: 'RA-1' }), DEFAULT_DUPLICATE_CONFIG)).toBe('id:ra-1');
+    expect(duplicateKey(record(0, 10, { reservationId: 'RA-1' }), { ...DEFAULT_DUPLICATE_CONFIG, useReservationId: false }))
+      .toBe('row:athens|2024-3-10|a|2|10.00');
+  });
+
+  it('compares check-out dates by day and charges by cent', () => {
+    const a = record(0, 10.001);
+    const b = record(1, 10, { date: new Date('2024-03-10T18:30:00') });
+    expect(duplicateKey(a, DEFAULT_DUPLICATE_CONFIG)).toBe(duplicateKey(b, DEFAULT_DUPLICATE_CONFIG));
+  });
+
+  it('uses only the configured composite fields', () => {
+    const byStationAndDay = { ...DEFAULT_DUPLICATE_CONFIG, compositeFields: ['station', 'date'] } as DuplicateConfig;
+    expect(duplicateKey(record(0, 10), byStationAndDay)).toBe(duplicateKey(record(1, 99), byStationAndDay));
+  });
+});
+
+describe('resolveDuplicates', () => {
+  const existing = [record(1, 10, { reservationId: 'RA-1' }), record(2, 20)];
+  const incoming = [record(3, 15, { reservationId: 'ra-1' }), record(4, 20), record(5, 20), record(6, 30)];
+
+  it('keep-first keeps the existing copy and the first repeat in the file', () => {
+    const { records, report } = resolveDuplicates(incoming, existing, config('keep-first'));
+    expect(ids(records)).toEqual([1, 2, 6]);
+    expect(report).toEqual({ withinFile: 1, againstExisting: 3, removed: 3 });
+  });
+
+  it('keep-last keeps the incoming copy and the last repeat in the file', () => {
+    const { records, report } = resolveDuplicates(incoming, existing, config('keep-last'));
+    expect(ids(records)).toEqual([3, 5, 6]);
+    expect(report.removed).toBe(3);
+  });
+
+  it('keep-all keeps every record but still counts the duplicates', () => {
+    const { records, report } = resolveDuplicates(incoming, existing, config('keep-all'));
+    expect(ids(records)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(report).toEqual({ withinFile: 1, againstExisting: 3, removed: 0 });
+  });
+
+  it('dedupes the file on its own when replacing', () => {
+    const { records, report } = resolveDuplicates(incoming, null, config('keep-first'));
+    expect(ids(records)).toEqual([3, 4, 6]);
+    expect(report).toEqual({ withinFile: 1, againstExisting: 0, removed: 1 });
+  });
+});
@@ -0,0 +1,91 @@
+import { RentalRecord, DuplicateConfig, DuplicateKeyField, DuplicateStrategy } from '../types';
+
+export const DEFAULT_DUPLICATE_CONFIG: DuplicateConfig = {
+  useReservationId: true,
+  compositeFields: ['station', 'date', 'group', 'days', 'charge'],
+  strategy: 'keep-last',
+};
+
+export const COMPOSITE_FIELD_LABELS: Record<DuplicateKeyField, string> = {
+  station: 'Station',
+  date: 'Check-out date',
+  group: 'Group',
+  days: 'Days',
+  charge: 'Charge',
+};
+
+export interface DuplicateReport {
+  withinFile: number;      // Incoming records repeating an earlier incoming record
+  againstExisting: number; // Incoming records already present in the cloud dataset
+  removed: number;         // Records dropped by the chosen strategy
+}
+
+const dayKey = (d: Date) => `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+
+const compositePart = (r: RentalRecord, field: DuplicateKeyField): string => {
+  switch (field) {
+    case 'station': return r.stationKey;
+    case 'date': return dayKey(r.date);
+    case 'group': return r.groupKey;
+    case 'days': return String(r.days);
+    case 'charge': return r.charge.toFixed(2);
+  }
+};
+
+// Reservation ID when available, otherwise the configured composite key
+export const duplicateKey = (r: RentalRecord, config: DuplicateConfig): string => {
+  if (config.useReservationId && r.reservationId) return `id:${r.reservationId.toLowerCase()}`;
+  return `row:${config.compositeFields.map(f => compositePart(r, f)).join('|')}`;
+};
+
+// Existing records come first, so keep-first favours the cloud copy and
+// keep-last favours the incoming file; within the file, order decides
+const applyStrategy = (records: RentalRecord[], config: DuplicateConfig): RentalRecord[] => {
+  if (config.strategy === 'keep-all') return records;
+
+  const keep = new Map<string, number>();
+  records.forEach((r, i) => {
+    const key = duplicateKey(r, config);
+    if (config.strategy === 'keep-last' || !keep.has(key)) keep.set(key, i);
+  });
+  const kept = new Set(keep.values());
+  return records.filter((_, i) => kept.has(i));
+};
+
+export const analyseDuplicates = (
+  incoming: RentalRecord[],
+  existing: RentalRecord[],
+  config: DuplicateConfig
+): DuplicateReport => {
+  const existingKeys = new Set(existing.map(r => duplicateKey(r, config)));
+  const seen = new Set<string>();
+  let withinFile = 0;
+  let againstExisting = 0;
+
+  incoming.forEach(r => {
+    const key = duplicateKey(r, config);
+    if (seen.has(key)) withinFile++;
+    seen.add(key);
+    if (existingKeys.has(key)) againstExisting++;
+  });
+
+  return { withinFile, againstExisting, removed: 0 };
+};
+
+// Dedupe incoming records on their own (replace) or together with an existing dataset (merge)
+export const resolveDuplicates = (
+  incoming: RentalRecord[],
+  existing: RentalRecord[] | null,
+  config: DuplicateConfig
+): { records: RentalRecord[]; report: DuplicateReport } => {
+  const report = analyseDuplicates(incoming, existing || [], config);
+  const combined = existing ? [...existing, ...incoming] : incoming;
+  const records = applyStrategy(combined, config);
+  return { records, report: { ...report, removed: combined.length - records.length } };
+};
+
+export const STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  'keep-first': 'Keep first (existing wins)',
+  'keep-last': 'Keep last (newest wins)',
+  'keep-all': 'Keep all',
+};
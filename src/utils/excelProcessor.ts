@@ -1,31 +1,87 @@
-import { ProcessedData, WorkerResponse } from '../types';
+import { ProcessedData, WorkerMessage, WorkerResponse, ImportSource, ColumnMapping, FileInspection, ImportOptions, RowRejection, ParseProgress, ChargeRuleCounts, OutlierFlag } from '../types';
+import { hydrateRecord } from './datasetUtils';
 
-export const parseExcelFile = (file: File): Promise<{ data: ProcessedData, hash: string }> => {
+// How long a cancelled worker gets to acknowledge before it is terminated
+// (XLSX.read is synchronous and cannot observe the CANCEL message)
+const CANCEL_GRACE_MS = 500;
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled');
+    this.name = 'ImportCancelledError';
+  }
+}
+
+interface WorkerControls {
+  onProgress?: (progress: ParseProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Spin up a fresh worker for a single request and resolve with its final reply
+const runWorker = (message: WorkerMessage, { onProgress, signal }: WorkerControls = {}): Promise<WorkerResponse> => {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new ImportCancelledError());
+
     // Use new URL syntax which is standard and Vite-compatible for Worker instantiation
     const worker = new Worker(new URL('../workers/dataProcessor.ts', import.meta.url), {
       type: 'module'
     });
+    let killTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      clearTimeout(killTimer);
+      signal?.removeEventListener('abort', handleAbort);
+      worker.terminate();
+    };
+
+    const handleAbort = () => {
+      worker.postMessage({ type: 'CANCEL' } as WorkerMessage);
+      killTimer = setTimeout(() => {
+        finish();
+        reject(new ImportCancelledError());
+      }, CANCEL_GRACE_MS);
+    };
+    signal?.addEventListener('abort', handleAbort);
 
     worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
-      const { type, data, hash, error } = e.data;
-      if (type === 'SUCCESS' && data && hash) {
-        // Hydrate dates back from JSON serialization (Worker transfer makes dates strings)
-        data.records.forEach(r => {
-          r.date = new Date(r.date);
-        });
-        resolve({ data, hash });
-      } else {
-        reject(new Error(error || 'Unknown error parsing file'));
+      const { type } = e.data;
+      if (type === 'PROGRESS') {
+        if (e.data.progress) onProgress?.(e.data.progress);
+        return;
       }
-      worker.terminate();
+
+      finish();
+      if (type === 'CANCELLED') reject(new ImportCancelledError());
+      else if (type === 'ERROR') reject(new Error(e.data.error || 'Unknown error parsing file'));
+      else resolve(e.data);
     };
 
     worker.onerror = (err) => {
+      finish();
       reject(err);
-      worker.terminate();
     };
 
-    worker.postMessage({ type: 'PARSE', file });
+    worker.postMessage(message);
   });
-};
\ No newline at end of file
+};
+
+// Read headers and a few sample rows so the user can map columns before parsing
+export const inspectFile = async (file: File, signal?: AbortSignal): Promise<FileInspection> => {
+  const { inspection } = await runWorker({ type: 'INSPECT', file }, { signal });
+  if (!inspection) throw new Error('Unknown error inspecting file');
+  return inspection;
+};
+
+export const parseExcelFile = async (
+  file: File,
+  mapping?: ColumnMapping,
+  options?: ImportOptions,
+  controls?: WorkerControls
+): Promise<{ data: ProcessedData, hash: string, source?: ImportSource, rejections: RowRejection[], chargeCounts?: ChargeRuleCounts, outliers: OutlierFlag[] }> => {
+  const { data, hash, source, rejections = [], chargeCounts, outliers = [] } = await runWorker({ type: 'PARSE', file, mapping, options }, controls);
+  if (!data || !hash) throw new Error('Unknown error parsing file');
+
+  // Hydrate dates back from JSON serialization (Worker transfer makes dates strings)
+  data.records.forEach(hydrateRecord);
+  return { data, hash, source, rejections, chargeCounts, outliers };
+};
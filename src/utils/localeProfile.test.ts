@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { LocaleProfile } from '../types';
+import { DEFAULT_LOCALE, checkLocale, detectLocale, parseDate, parseNumber } from './localeProfile';
+
+const EUROPEAN: LocaleProfile = { ...DEFAULT_LOCALE, decimalSeparator: ',', thousandsSeparator: '.' };
+const US: LocaleProfile = { ...DEFAULT_LOCALE, dateOrder: 'MDY' };
+
+const numbers = (...values: string[]) => ({ dates: [], numbers: values });
+const dates = (...values: string[]) => ({ dates: values, numbers: [] });
+
+describe('parseNumber', () => {
+  it('reads "1.250" by the separators of the profile', () => {
+    expect(parseNumber('1.250', DEFAULT_LOCALE)).toBe(1.25);
+    expect(parseNumber('1.250', EUROPEAN)).toBe(1250);
+    expect(parseNumber('1.250,50', EUROPEAN)).toBe(1250.5);
+    expect(parseNumber('1,250.50', DEFAULT_LOCALE)).toBe(1250.5);
+  });
+
+  it('drops currency symbols and reads accounting negatives', () => {
+    expect(parseNumber('€ 12,5', EUROPEAN)).toBe(12.5);
+    expect(parseNumber('(45.10)', DEFAULT_LOCALE)).toBe(-45.1);
+    expect(parseNumber('45.10-', DEFAULT_LOCALE)).toBe(-45.1);
+  });
+});
+
+describe('parseDate', () => {
+  it('reads day and month in the order of the profile', () => {
+    expect(parseDate('03/04/2024', DEFAULT_LOCALE)).toEqual(new Date(2024, 3, 3));
+    expect(parseDate('03/04/2024', US)).toEqual(new Date(2024, 2, 4));
+  });
+
+  it('reads a leading 4-digit year whatever the profile', () => {
+    expect(parseDate('2024-03-04', US)).toEqual(new Date(2024, 2, 4));
+  });
+
+  it('rejects dates that do not exist instead of rolling over', () => {
+    expect(parseDate('31/02/2024', DEFAULT_LOCALE)).toBeNull();
+    expect(parseDate('13/25/2024', US)).toBeNull();
+  });
+});
+
+describe('detectLocale', () => {
+  it('tells "1.250" from "1.25"', () => {
+    expect(detectLocale(numbers('1.25', '3.50')).decimalSeparator).toBe('.');
+    expect(detectLocale(numbers('1.250', '2.400')).decimalSeparator).toBe(',');
+    expect(detectLocale(numbers('1.250', '12,50')).decimalSeparator).toBe(',');
+    expect(detectLocale(numbers('1,250', '2,400')).decimalSeparator).toBe('.');
+    expect(detectLocale(numbers('1.250.000')).decimalSeparator).toBe(',');
+  });
+
+  it('settles day/month order only on unambiguous dates', () => {
+    expect(detectLocale(dates('03/04/2024', '25/04/2024')).dateOrder).toBe('DMY');
+    expect(detectLocale(dates('03/04/2024', '04/25/2024')).dateOrder).toBe('MDY');
+    expect(detectLocale(dates('03/04/2024', '05/06/2024')).dateOrder).toBe('DMY');
+    expect(detectLocale(dates('2024-03-04', '2024-04-25')).dateOrder).toBe('YMD');
+  });
+
+  it('adds the currency symbols found in the numbers', () => {
+    expect(detectLocale(numbers('CHF 12.50', '₺40.00')).currencySymbols).toEqual(['€', '$', '£', '₺']);
+  });
+});
+
+describe('checkLocale', () => {
+  it('warns when only ambiguous dates were sampled', () => {
+    expect(checkLocale(dates('03/04/2024'), DEFAULT_LOCALE)).toEqual([
+      `Dates such as "03/04/2024" are ambiguous; they will be read as ${new Date(2024, 3, 3).toDateString()} (Day/Month/Year).`,
+    ]);
+  });
+
+  it('warns when the dates contradict the profile or each other', () => {
+    expect(checkLocale(dates('25/04/2024'), US)).toEqual(['1 sampled dates only make sense as Day/Month/Year.']);
+    expect(checkLocale(dates('25/04/2024', '04/25/2024'), DEFAULT_LOCALE))
+      .toEqual(['The date column mixes day-first (1) and month-first (1) values.']);
+  });
+
+  it('says how ambiguous numbers will be read', () => {
+    expect(checkLocale(numbers('1.250'), EUROPEAN)).toEqual(['Values such as "1.250" are ambiguous; they will be read as 1250.']);
+    expect(checkLocale(numbers('1.250'), DEFAULT_LOCALE)).toEqual(['Values such as "1.250" are ambiguous; they will be read as 1.25.']);
+  });
+
+  it('warns when the numbers contradict the decimal separator', () => {
+    expect(checkLocale(numbers('12.50', '3.10'), EUROPEAN))
+      .toEqual(['2 sampled numbers look like they use "." as the decimal separator.']);
+  });
+});
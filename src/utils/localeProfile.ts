@@ -0,0 +1,214 @@
+import { LocaleProfile, DateOrder, ColumnMapping } from '../types';
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  DMY: 'Day/Month/Year',
+  MDY: 'Month/Day/Year',
+  YMD: 'Year/Month/Day',
+};
+
+export const DEFAULT_LOCALE: LocaleProfile = {
+  dateOrder: 'DMY',
+  decimalSeparator: '.',
+  thousandsSeparator: ',',
+  currencySymbols: ['€', '$', '£'],
+};
+
+// Values sampled from the mapped date and numeric columns
+export interface LocaleSamples {
+  dates: any[];
+  numbers: any[];
+}
+
+// Pick the sampled values of the mapped date and numeric columns
+export const buildLocaleSamples = (columnSamples: Record<string, any[]>, mapping: ColumnMapping): LocaleSamples => {
+  const valuesOf = (column?: string) => (column && columnSamples[column]) || [];
+  return {
+    dates: [...valuesOf(mapping.date), ...valuesOf(mapping.returnDate), ...valuesOf(mapping.bookingDate)],
+    numbers: [...valuesOf(mapping.days), ...valuesOf(mapping.charge)],
+  };
+};
+
+interface LocaleEvidence {
+  dmy: number;            // First part > 12, so day-first
+  mdy: number;            // Second part > 12, so month-first
+  ymd: number;            // Leading 4-digit year
+  ambiguousDates: number; // Both parts <= 12
+  ambiguousDateExample?: string;
+  dotDecimal: number;
+  commaDecimal: number;
+  ambiguousNumbers: number; // A single separator followed by exactly 3 digits
+  ambiguousNumberExample?: string;
+  symbols: string[];
+}
+
+const DATE_PARTS = /^(\d{1,4})[\/\-\.](\d{1,2})[\/\-\.](\d{1,4})/;
+
+export const parseDate = (val: any, locale: LocaleProfile): Date | null => {
+  if (val instanceof Date) return isNaN(val.getTime()) ? null : val;
+  if (!val) return null;
+  const str = String(val).trim();
+
+  const match = str.match(DATE_PARTS);
+  if (match) {
+    const [a, b, c] = [match[1], match[2], match[3]].map(p => parseInt(p));
+    let y: number, m: number, d: number;
+    // A leading 4-digit year (ISO style) is unambiguous whatever the profile says
+    if (match[1].length === 4 || locale.dateOrder === 'YMD') [y, m, d] = [a, b, c];
+    else if (locale.dateOrder === 'MDY') [m, d, y] = [a, b, c];
+    else [d, m, y] = [a, b, c];
+
+    if (y < 100) y += 2000;
+    const date = new Date(y, m - 1, d);
+    // Reject rollovers such as 31/02 instead of silently moving to March
+    if (isNaN(date.getTime()) || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+    return date;
+  }
+
+  // Textual dates ("25 Jul 2024") carry no day/month ambiguity
+  if (!/[a-zA-Z]/.test(str)) return null;
+  const fallback = new Date(str);
+  return isNaN(fallback.getTime()) ? null : fallback;
+};
+
+export const parseNumber = (val: any, locale: LocaleProfile): number => {
+  if (typeof val === 'number') return val;
+  if (!val) return 0;
+  let str = String(val).trim();
+  if (str === '') return 0;
+
+  // Accounting formats: (123.45) and 123.45-
+  const isNegative = (str.startsWith('(') && str.endsWith(')')) || str.endsWith('-');
+  if (str.startsWith('(')) str = str.slice(1, -1);
+  else if (str.endsWith('-')) str = str.slice(0, -1);
+
+  locale.currencySymbols.forEach(symbol => {
+    str = str.split(symbol).join('');
+  });
+  str = str.replace(/[a-zA-Z\s]/g, '');
+  if (locale.thousandsSeparator) str = str.split(locale.thousandsSeparator).join('');
+  if (locale.decimalSeparator === ',') str = str.replace(',', '.');
+
+  const num = parseFloat(str);
+  return isNaN(num) ? 0 : (isNegative ? -Math.abs(num) : num);
+};
+
+const gatherEvidence = (samples: LocaleSamples): LocaleEvidence => {
+  const evidence: LocaleEvidence = {
+    dmy: 0, mdy: 0, ymd: 0, ambiguousDates: 0,
+    dotDecimal: 0, commaDecimal: 0, ambiguousNumbers: 0,
+    symbols: [],
+  };
+
+  samples.dates.forEach(val => {
+    if (val instanceof Date || typeof val === 'number' || !val) return;
+    const str = String(val).trim();
+    const match = str.match(DATE_PARTS);
+    if (!match) return;
+    if (match[1].length === 4) {
+      evidence.ymd++;
+      return;
+    }
+    const a = parseInt(match[1]);
+    const b = parseInt(match[2]);
+    if (a > 12 && b <= 12) evidence.dmy++;
+    else if (b > 12 && a <= 12) evidence.mdy++;
+    else if (a <= 12 && b <= 12) {
+      evidence.ambiguousDates++;
+      if (!evidence.ambiguousDateExample && a !== b) evidence.ambiguousDateExample = str;
+    }
+  });
+
+  const symbols = new Set<string>();
+  samples.numbers.forEach(val => {
+    if (typeof val === 'number' || !val) return;
+    const str = String(val).trim();
+    (str.match(/[^\d.,\s()\-+]+/g) || []).forEach(s => symbols.add(s));
+
+    const digits = str.replace(/[^\d.,]/g, '');
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+    if (lastDot >= 0 && lastComma >= 0) {
+      // Both present: whichever comes last is the decimal separator
+      if (lastComma > lastDot) evidence.commaDecimal++;
+      else evidence.dotDecimal++;
+      return;
+    }
+    const sep = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+    if (!sep) return;
+    if (digits.split(sep).length > 2) {
+      // Repeated separator can only be grouping
+      if (sep === '.') evidence.commaDecimal++;
+      else evidence.dotDecimal++;
+      return;
+    }
+    const fractionLength = digits.length - digits.lastIndexOf(sep) - 1;
+    if (fractionLength === 3) {
+      evidence.ambiguousNumbers++;
+      if (!evidence.ambiguousNumberExample) evidence.ambiguousNumberExample = str;
+    } else if (sep === '.') {
+      evidence.dotDecimal++;
+    } else {
+      evidence.commaDecimal++;
+    }
+  });
+  evidence.symbols = Array.from(symbols);
+
+  return evidence;
+};
+
+// Suggest a locale profile from sampled column values
+export const detectLocale = (samples: LocaleSamples): LocaleProfile => {
+  const ev = gatherEvidence(samples);
+
+  let dateOrder: DateOrder = DEFAULT_LOCALE.dateOrder;
+  if (ev.ymd > ev.dmy + ev.mdy + ev.ambiguousDates) dateOrder = 'YMD';
+  else if (ev.mdy > ev.dmy) dateOrder = 'MDY';
+
+  let decimalSeparator = DEFAULT_LOCALE.decimalSeparator;
+  if (ev.commaDecimal > ev.dotDecimal) decimalSeparator = ',';
+  else if (ev.commaDecimal === 0 && ev.dotDecimal === 0 && ev.ambiguousNumbers > 0) {
+    // Only "1.250"-style values: read the separator as grouping, as exports rarely carry 3 decimals
+    decimalSeparator = ev.ambiguousNumberExample?.includes('.') ? ',' : '.';
+  }
+
+  const currencySymbols = Array.from(new Set([
+    ...DEFAULT_LOCALE.currencySymbols,
+    ...ev.symbols.filter(s => !/^[a-zA-Z]+$/.test(s)),
+  ]));
+
+  return {
+    dateOrder,
+    decimalSeparator,
+    thousandsSeparator: decimalSeparator === ',' ? '.' : ',',
+    currencySymbols,
+  };
+};
+
+// Explain where the chosen profile is ambiguous or contradicted by the data
+export const checkLocale = (samples: LocaleSamples, locale: LocaleProfile): string[] => {
+  const ev = gatherEvidence(samples);
+  const warnings: string[] = [];
+
+  if (ev.dmy > 0 && ev.mdy > 0) {
+    warnings.push(`The date column mixes day-first (${ev.dmy}) and month-first (${ev.mdy}) values.`);
+  } else if (ev.dmy > 0 && locale.dateOrder === 'MDY') {
+    warnings.push(`${ev.dmy} sampled dates only make sense as Day/Month/Year.`);
+  } else if (ev.mdy > 0 && locale.dateOrder === 'DMY') {
+    warnings.push(`${ev.mdy} sampled dates only make sense as Month/Day/Year.`);
+  } else if (ev.dmy === 0 && ev.mdy === 0 && ev.ambiguousDateExample && locale.dateOrder !== 'YMD') {
+    const parsed = parseDate(ev.ambiguousDateExample, locale);
+    warnings.push(`Dates such as "${ev.ambiguousDateExample}" are ambiguous; they will be read as ${parsed ? parsed.toDateString() : 'invalid'} (${DATE_ORDER_LABELS[locale.dateOrder]}).`);
+  }
+
+  if (ev.dotDecimal > 0 && ev.commaDecimal > 0) {
+    warnings.push(`Numeric columns mix "." (${ev.dotDecimal}) and "," (${ev.commaDecimal}) decimal separators.`);
+  } else if (ev.dotDecimal > 0 && locale.decimalSeparator === ',') {
+    warnings.push(`${ev.dotDecimal} sampled numbers look like they use "." as the decimal separator.`);
+  } else if (ev.commaDecimal > 0 && locale.decimalSeparator === '.') {
+    warnings.push(`${ev.commaDecimal} sampled numbers look like they use "," as the decimal separator.`);
+  } else if (ev.dotDecimal === 0 && ev.commaDecimal === 0 && ev.ambiguousNumberExample) {
+    warnings.push(`Values such as "${ev.ambiguousNumberExample}" are ambiguous; they will be read as ${parseNumber(ev.ambiguousNumberExample, locale)}.`);
+  }
+
+  return warnings;
+};
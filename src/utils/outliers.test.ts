@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { OutlierFlag, RentalRecord } from '../types';
+import { applyOutlierDecisions, findOutliers, suggestCorrection } from './outliers';
+
+const record = (id: number, charge: number, extra: Partial<RentalRecord> = {}): RentalRecord => ({
+  id,
+  station: 'Athens',
+  stationKey: 'athens',
+  group: 'A',
+  groupKey: 'a',
+  date: new Date('2024-03-10T00:00:00'),
+  monthKey: '2024-03',
+  displayDate: '',
+  day: 10,
+  days: 2,
+  charge,
+  year: 2024,
+  ...extra,
+});
+
+// Group A charges 40-48 a day; record 5 was typed without its decimal point
+const groupA = [80, 84, 88, 92, 96, 8800].map((charge, id) => record(id, charge));
+
+describe('findOutliers', () => {
+  it.each(['mad', 'iqr'] as const)('flags a rate far from its group with %s', (method) => {
+    const flags = findOutliers(groupA, method);
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ recordId: 5, rate: 4400, median: 45, scope: 'Athens · A · 2024-03' });
+    expect(flags[0].low).toBeLessThan(40);
+    expect(flags[0].high).toBeGreaterThan(48);
+  });
+
+  it('judges small groups against the whole station', () => {
+    const groupB = [record(6, 90, { group: 'B', groupKey: 'b' }), record(7, 400, { group: 'B', groupKey: 'b' })];
+    const flags = findOutliers([...groupA, ...groupB], 'mad');
+    expect(flags.map(f => [f.recordId, f.scope])).toEqual([
+      [5, 'Athens · A · 2024-03'],
+      [7, 'Athens · all groups · 2024-03'],
+    ]);
+  });
+
+  it('does not judge stations with too few rates', () => {
+    expect(findOutliers(groupA.slice(2), 'mad')).toEqual([]);
+  });
+
+  it('leaves zero, negative and typed charges to the charge rules', () => {
+    const others = [record(6, 0), record(7, -8800), record(8, 8800, { chargeType: 'complimentary' })];
+    expect(findOutliers([...groupA, ...others], 'mad').map(f => f.recordId)).toEqual([5]);
+  });
+
+  it('falls back to the mean deviation when most rates are identical', () => {
+    const flat = [80, 80, 80, 80, 82, 800].map((charge, id) => record(id, charge));
+    expect(findOutliers(flat, 'mad').map(f => f.recordId)).toEqual([5]);
+  });
+});
+
+describe('suggestCorrection', () => {
+  const flag: OutlierFlag = { recordId: 5, rate: 4400, median: 45, low: 30, high: 60, scope: '' };
+
+  it('suggests the charge off by a power of ten', () => {
+    expect(suggestCorrection(record(5, 8800), flag)).toBe(88);
+    expect(suggestCorrection(record(5, 9), flag)).toBe(90);
+  });
+
+  it('suggests nothing when no power of ten fits', () => {
+    expect(suggestCorrection(record(5, 5000), flag)).toBeNull();
+  });
+});
+
+describe('applyOutlierDecisions', () => {
+  const flags = findOutliers([...groupA, record(6, 2), record(7, 9000)], 'mad');
+
+  it('excludes, corrects and otherwise accepts the flagged rows', () => {
+    expect(flags.map(f => f.recordId)).toEqual([5, 6, 7]);
+    const records = [...groupA, record(6, 2), record(7, 9000)];
+    const { records: result, counts } = applyOutlierDecisions(records, flags, {
+      5: { action: 'correct', charge: 88 },
+      6: { action: 'exclude' },
+    });
+    expect(result.map(r => [r.id, r.charge])).toEqual([[0, 80], [1, 84], [2, 88], [3, 92], [4, 96], [5, 88], [7, 9000]]);
+    expect(counts).toEqual({ flagged: 3, accepted: 1, excluded: 1, corrected: 1 });
+  });
+
+  it('accepts a correction without a positive charge as is', () => {
+    const { records, counts } = applyOutlierDecisions(groupA, flags, { 5: { action: 'correct', charge: 0 } });
+    expect(records[5].charge).toBe(8800);
+    expect(counts.accepted).toBe(1);
+  });
+});
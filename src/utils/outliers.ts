@@ -0,0 +1,123 @@
+import { OutlierCounts, OutlierDecision, OutlierFlag, OutlierMethod, RentalRecord } from '../types';
+
+// Below this many rates a distribution says little; small groups fall back to the whole station
+const MIN_SAMPLES = 5;
+const IQR_FENCE = 3;        // Tukey's "far out" fence
+const ROBUST_Z_LIMIT = 3.5; // Iglewicz & Hoaglin's recommended cut-off
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  mad: 'Robust z-score (median / MAD)',
+  iqr: 'Interquartile range',
+};
+
+const quantile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const base = Math.floor(pos);
+  const rest = pos - base;
+  return base + 1 < sorted.length ? sorted[base] + rest * (sorted[base + 1] - sorted[base]) : sorted[base];
+};
+
+// Accepted rate range for one distribution, or null when it cannot be judged
+const rateBounds = (rates: number[], method: OutlierMethod): { low: number; high: number; median: number } | null => {
+  if (rates.length < MIN_SAMPLES) return null;
+  const sorted = [...rates].sort((a, b) => a - b);
+  const median = quantile(sorted, 0.5);
+
+  if (method === 'iqr') {
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const iqr = q3 - q1;
+    if (iqr === 0) return null;
+    return { low: q1 - IQR_FENCE * iqr, high: q3 + IQR_FENCE * iqr, median };
+  }
+
+  const deviations = sorted.map(r => Math.abs(r - median)).sort((a, b) => a - b);
+  let spread = quantile(deviations, 0.5) / 0.6745;
+  // More than half the rates are identical: use the mean absolute deviation instead
+  if (spread === 0) spread = (deviations.reduce((acc, d) => acc + d, 0) / deviations.length) * 1.2533;
+  if (spread === 0) return null;
+  return { low: median - ROBUST_Z_LIMIT * spread, high: median + ROBUST_Z_LIMIT * spread, median };
+};
+
+const rateOf = (r: RentalRecord) => r.charge / r.days;
+
+// Flag rows whose rate per day is far from their station/group/month peers.
+// Zero, negative and complimentary rows are left to the charge rules.
+export const findOutliers = (records: RentalRecord[], method: OutlierMethod): OutlierFlag[] => {
+  const candidates = records.filter(r => r.charge > 0 && !r.chargeType);
+  const byGroup = new Map<string, RentalRecord[]>();
+  const byStation = new Map<string, RentalRecord[]>();
+  candidates.forEach(r => {
+    const groupKey = `${r.stationKey}|${r.groupKey}|${r.monthKey}`;
+    const stationKey = `${r.stationKey}|${r.monthKey}`;
+    if (!byGroup.has(groupKey)) byGroup.set(groupKey, []);
+    if (!byStation.has(stationKey)) byStation.set(stationKey, []);
+    byGroup.get(groupKey)!.push(r);
+    byStation.get(stationKey)!.push(r);
+  });
+
+  const stationBounds = new Map<string, ReturnType<typeof rateBounds>>();
+  const boundsForStation = (key: string) => {
+    if (!stationBounds.has(key)) stationBounds.set(key, rateBounds(byStation.get(key)!.map(rateOf), method));
+    return stationBounds.get(key)!;
+  };
+
+  const flags: OutlierFlag[] = [];
+  byGroup.forEach((members, key) => {
+    const first = members[0];
+    let bounds = rateBounds(members.map(rateOf), method);
+    let scope = `${first.station} · ${first.group} · ${first.monthKey}`;
+    if (!bounds) {
+      bounds = boundsForStation(`${first.stationKey}|${first.monthKey}`);
+      scope = `${first.station} · all groups · ${first.monthKey}`;
+    }
+    if (!bounds) return;
+    const { low, high, median } = bounds;
+    members.forEach(r => {
+      const rate = rateOf(r);
+      if (rate < low || rate > high) {
+        flags.push({ recordId: r.id, rate, median, low: Math.max(0, low), high, scope });
+      }
+    });
+  });
+
+  return flags.sort((a, b) => a.recordId - b.recordId);
+};
+
+// A likely corrected charge when the rate looks off by a power of ten (e.g. 3,500 for 35.00)
+export const suggestCorrection = (record: RentalRecord, flag: OutlierFlag): number | null => {
+  for (const factor of [100, 1000, 10, 0.1, 0.01]) {
+    const charge = record.charge / factor;
+    const rate = charge / record.days;
+    if (rate >= flag.low && rate <= flag.high) return Math.round(charge * 100) / 100;
+  }
+  return null;
+};
+
+// Drop excluded rows and apply corrected charges; unreviewed flags count as accepted
+export const applyOutlierDecisions = (
+  records: RentalRecord[],
+  flags: OutlierFlag[],
+  decisions: Record<number, OutlierDecision>
+): { records: RentalRecord[]; counts: OutlierCounts } => {
+  const counts: OutlierCounts = { flagged: flags.length, accepted: 0, excluded: 0, corrected: 0 };
+  const flagged = new Set(flags.map(f => f.recordId));
+  const result: RentalRecord[] = [];
+
+  records.forEach(r => {
+    const decision = flagged.has(r.id) ? decisions[r.id] : undefined;
+    if (!flagged.has(r.id)) {
+      result.push(r);
+    } else if (decision?.action === 'exclude') {
+      counts.excluded++;
+    } else if (decision?.action === 'correct' && decision.charge !== undefined && decision.charge > 0) {
+      counts.corrected++;
+      result.push({ ...r, charge: decision.charge });
+    } else {
+      counts.accepted++;
+      result.push(r);
+    }
+  });
+
+  return { records: result, counts };
+};
@@ -0,0 +1,259 @@
+import * as XLSX from 'xlsx';
+import { ProcessedData, RentalRecord, ImportSource, ColumnMapping, RowRejection, RejectionReason, LocaleProfile, AliasDictionary, ChargeRules, ChargeRuleCounts, ChargeType, FileInspection, ImportOptions, OutlierFlag } from '../types';
+import { detectFileFormat, decodeText, detectDelimiter, parseDelimited } from './delimitedText';
+import { suggestMapping, getMissingRequiredFields } from './columnMapping';
+import { parseDate, parseNumber, detectLocale, buildLocaleSamples } from './localeProfile';
+import { dominantYear, buildProcessedData } from './datasetUtils';
+import { resolveAlias, EMPTY_ALIASES } from './aliases';
+import { normalizeCurrency, detectCurrency } from './currency';
+import { DEFAULT_CHARGE_RULES, emptyChargeCounts, netRefunds } from './chargeRules';
+import { findOutliers } from './outliers';
+
+// Parsing shared by the import worker and the command-line ingester
+
+const SAMPLE_ROW_COUNT = 5;
+const COLUMN_SAMPLE_SIZE = 200;
+const CHUNK_SIZE = 5000;
+
+export interface SheetRows {
+  name: string;
+  rows: any[];
+}
+
+export interface ParseResult {
+  data: ProcessedData;
+  rejections: RowRejection[];
+  chargeCounts: ChargeRuleCounts;
+  outliers: OutlierFlag[];
+}
+
+// Reports rows parsed and rejected so far; may throw to abort processing
+export type ChunkCallback = (rowsParsed: number, rowsRejected: number, totalRows: number) => Promise<void>;
+
+export const inspectSheets = (sheets: SheetRows[], source: ImportSource): FileInspection => {
+  const headers = collectHeaders(sheets);
+  const firstFilled = sheets.find(s => s.rows.length > 0);
+  return {
+    headers,
+    sampleRows: firstFilled ? firstFilled.rows.slice(0, SAMPLE_ROW_COUNT) : [],
+    totalRows: sheets.reduce((acc, s) => acc + s.rows.length, 0),
+    sheets: sheets.map(s => ({ name: s.name, rowCount: s.rows.length })),
+    columnSamples: sampleColumns(sheets.flatMap(s => s.rows), headers),
+    source,
+    suggestedMapping: suggestMapping(headers)
+  };
+};
+
+export const parseSheets = async (
+  sheets: SheetRows[],
+  mapping: ColumnMapping | undefined,
+  options: ImportOptions,
+  onChunk: ChunkCallback
+): Promise<ParseResult> => {
+  // Default to the first sheet, as before multi-sheet support
+  const selected = options.sheets && options.sheets.length > 0
+    ? sheets.filter(s => options.sheets!.includes(s.name))
+    : sheets.slice(0, 1);
+  if (selected.length === 0) throw new Error('None of the selected sheets exist in this file');
+
+  const headers = collectHeaders(selected);
+  const activeMapping = mapping || suggestMapping(headers);
+  const locale = options.locale ||
+    detectLocale(buildLocaleSamples(sampleColumns(selected.flatMap(s => s.rows), headers), activeMapping));
+
+  const { data, rejections, chargeCounts } = await processRawData(
+    selected, activeMapping, locale, !!options.tagSheets, options.aliases || EMPTY_ALIASES,
+    options.chargeRules || DEFAULT_CHARGE_RULES, onChunk
+  );
+
+  // Rates far from their station/group/month peers go to the review step
+  const outliers = findOutliers(data.records, options.outlierMethod || 'mad');
+  return { data, rejections, chargeCounts, outliers };
+};
+
+// Read every sheet of a workbook, or a CSV/TSV export as a single sheet
+export const readSheets = (fileName: string, buffer: ArrayBuffer): { sheets: SheetRows[]; source: ImportSource } => {
+  const format = detectFileFormat(fileName, buffer);
+
+  if (format === 'xlsx' || format === 'xls') {
+    const workbook = XLSX.read(buffer, { type: 'array', cellDates: true });
+    const sheets = workbook.SheetNames.map(name => ({
+      name,
+      rows: XLSX.utils.sheet_to_json<any>(workbook.Sheets[name], { defval: '', raw: true })
+    }));
+    return { sheets, source: { format } };
+  }
+
+  const { text, encoding } = decodeText(buffer);
+  const delimiter = format === 'tsv' ? '\t' : detectDelimiter(text);
+  const name = fileName.replace(/\.[^.]+$/, '');
+  return { sheets: [{ name, rows: parseDelimited(text, delimiter) }], source: { format, encoding, delimiter } };
+};
+
+// Union of headers across sheets, in first-seen order
+const collectHeaders = (sheets: SheetRows[]): string[] => {
+  const headers = new Set<string>();
+  sheets.forEach(s => {
+    if (s.rows.length > 0) Object.keys(s.rows[0]).forEach(h => headers.add(h));
+  });
+  return Array.from(headers);
+};
+
+// Up to COLUMN_SAMPLE_SIZE non-empty values per column, spread evenly across the rows
+const sampleColumns = (rows: any[], headers: string[]): Record<string, any[]> => {
+  const stride = Math.max(1, Math.floor(rows.length / COLUMN_SAMPLE_SIZE));
+  const samples: Record<string, any[]> = {};
+  headers.forEach(h => { samples[h] = []; });
+  for (let i = 0; i < rows.length; i += stride) {
+    headers.forEach(h => {
+      const val = rows[i][h];
+      if (val !== '' && val !== null && val !== undefined && samples[h].length < COLUMN_SAMPLE_SIZE) {
+        samples[h].push(val);
+      }
+    });
+  }
+  return samples;
+};
+
+// Spreadsheet row number as the user sees it (SheetJS tags rows with a 0-based __rowNum__)
+const sourceRowNumber = (row: any, index: number): number => {
+  return typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : index + 2;
+};
+
+// onChunk runs every CHUNK_SIZE rows; it may throw to abort processing
+const processRawData = async (
+  sheets: SheetRows[],
+  mapping: ColumnMapping,
+  locale: LocaleProfile,
+  tagSheets: boolean,
+  aliases: AliasDictionary,
+  chargeRules: ChargeRules,
+  onChunk: ChunkCallback
+): Promise<{ data: ProcessedData; rejections: RowRejection[]; chargeCounts: ChargeRuleCounts }> => {
+  const records: RentalRecord[] = [];
+  const rejections: RowRejection[] = [];
+  const chargeCounts = emptyChargeCounts();
+  const refunds = new Set<RentalRecord>(); // Negative rows waiting to be netted
+  const filled = sheets.filter(s => s.rows.length > 0);
+  if (filled.length === 0) {
+    return { data: buildProcessedData([], 0), rejections, chargeCounts };
+  }
+
+  // Sheets lacking a required column are rejected row by row; if none are usable, fail loudly
+  const usable = filled.filter(sheet => getMissingRequiredFields(mapping, Object.keys(sheet.rows[0])).length === 0);
+  if (usable.length === 0) {
+    const missing = getMissingRequiredFields(mapping, Object.keys(filled[0].rows[0]));
+    throw new Error(`Missing required columns: ${missing.map(f => f.label).join(', ')}`);
+  }
+
+  // Merged sheets are processed as one continuous row sequence
+  const data = filled.flatMap(sheet => sheet.rows.map((row, i) => ({
+    row,
+    sheet: sheet.name,
+    rowNumber: sourceRowNumber(row, i),
+    isUsable: usable.includes(sheet)
+  })));
+
+  const stationKey = mapping.station!;
+  const dateKey = mapping.date!;
+  const daysKey = mapping.days!;
+  const chargeKey = mapping.charge!;
+  const groupKey = mapping.group;
+  const { returnDate: returnDateKey, returnStation: returnStationKey, reservationId: reservationKey, bookingDate: bookingDateKey, currency: currencyKey } = mapping;
+
+  const processRow = ({ row, sheet, rowNumber, isUsable }: typeof data[number], index: number) => {
+    const reject = (reason: RejectionReason) => {
+      rejections.push({ row: rowNumber, ...(filled.length > 1 ? { sheet } : {}), reason, values: { ...row } });
+    };
+
+    if (!isUsable) return reject('missing_columns');
+
+    const rawStation = String(row[stationKey] || '').trim();
+    if (!rawStation) return reject('missing_station');
+    const station = resolveAlias(rawStation, aliases.stations);
+
+    const date = parseDate(row[dateKey], locale);
+    if (!date) return reject('invalid_date');
+
+    const days = parseNumber(row[daysKey], locale);
+    const charge = parseNumber(row[chargeKey], locale);
+    if (days <= 0) return reject('invalid_days');
+
+    // Zero and negative charges follow the configured rules
+    let chargeType: ChargeType | undefined;
+    let isRefund = false;
+    if (charge <= 0) {
+      const kind = charge < 0 ? 'negative' : 'zero';
+      const action = chargeRules[kind];
+      chargeCounts[kind]++;
+      if (action === 'exclude') {
+        chargeCounts.excluded++;
+        return reject(kind === 'negative' ? 'negative_charge' : 'zero_charge');
+      }
+      if (action === 'tag') {
+        chargeCounts.tagged++;
+        chargeType = 'complimentary';
+      } else {
+        // Refunds that cannot be netted stay visible as negative rows
+        chargeType = kind;
+        isRefund = action === 'net' && kind === 'negative';
+      }
+    }
+
+    const group = groupKey ? resolveAlias(String(row[groupKey] || 'Unknown'), aliases.groups) : 'Unknown';
+    const year = date.getFullYear();
+    const month = date.getMonth(); 
+    const day = date.getDate();
+
+    // Optional details never reject a row; unusable values are simply left out
+    const returnDate = returnDateKey ? parseDate(row[returnDateKey], locale) : null;
+    const returnStation = returnStationKey ? resolveAlias(String(row[returnStationKey] || ''), aliases.stations) : '';
+    const reservationId = reservationKey ? String(row[reservationKey] || '').trim() : '';
+    const bookingDate = bookingDateKey ? parseDate(row[bookingDateKey], locale) : null;
+    // Without a stated currency, the station's configured currency applies when reporting
+    const currency = (currencyKey ? normalizeCurrency(row[currencyKey]) : null) || detectCurrency(row[chargeKey]);
+
+    const paddedMonth = (month + 1).toString().padStart(2, '0');
+    const monthKey = `${year}-${paddedMonth}`;
+    const displayDate = date.toLocaleString('default', { month: 'short', year: 'numeric' });
+
+    const record: RentalRecord = {
+      id: index,
+      station,
+      stationKey: station.toLowerCase().trim(),
+      group,
+      groupKey: group.toLowerCase().trim(),
+      date,
+      monthKey,
+      displayDate,
+      day,
+      days,
+      charge,
+      ...(currency ? { currency } : {}),
+      year,
+      ...(tagSheets ? { sheet } : {}),
+      ...(returnDate ? { returnDate } : {}),
+      ...(returnStation ? { returnStation } : {}),
+      ...(reservationId ? { reservationId } : {}),
+      ...(bookingDate ? { bookingDate } : {}),
+      ...(chargeType ? { chargeType } : {})
+    };
+    records.push(record);
+    if (isRefund) refunds.add(record);
+  };
+
+  for (let index = 0; index < data.length; index++) {
+    if (index > 0 && index % CHUNK_SIZE === 0) {
+      await onChunk(records.length, rejections.length, data.length);
+    }
+    processRow(data[index], index);
+  }
+
+  const kept = netRefunds(records, refunds, chargeCounts);
+  return {
+    // Files spanning several years are split per year on the main thread
+    data: buildProcessedData(kept, dominantYear(kept)),
+    rejections,
+    chargeCounts
+  };
+};
\ No newline at end of file